@@ -0,0 +1,142 @@
+// ── Token budgets ────────────────────────────────────────────────────────────
+
+export type TokenEstimator = (text: string) => number;
+
+/** The README heuristic: ~4 characters per token */
+export const estimateTokens: TokenEstimator = (text) => Math.ceil(text.length / 4);
+
+export type BudgetItem = {
+  id: string;
+  group: string;       // items of one card share a group
+  priority: number;    // lower is kept first
+  text: string;        // what the item costs when rendered
+  required?: boolean;  // kept even past the budget (footgun and stale warnings)
+  head?: boolean;      // the group's other items are only kept if this one is
+  label: string;       // what is lost if omitted, e.g. "summary"
+  fetch: string;       // exact command that fetches the group in full
+};
+
+export type BudgetOptions = {
+  budget: number;
+  estimator?: TokenEstimator;
+  fixed?: string;                    // shown whatever is kept (titles); charged before any item
+  rerun: (budget: number) => string; // the same command with a different --budget
+};
+
+/** What a budgeted run left out, and how to get it back */
+export type BudgetOmission = {
+  budget: number;
+  used: number;                               // estimated tokens shown
+  total: number;                              // estimated tokens of the untrimmed output
+  omitted: { label: string; names: string[] }[];
+  fetch: string[];                            // per-card follow-up commands
+  rerun: string;                              // the whole output, with a budget that fits it
+  short?: boolean | undefined;                // no room for the lists: the footer is just the rerun command
+};
+
+export type BudgetResult = {
+  kept: Set<string>;
+  omission: BudgetOmission | null;
+};
+
+// Keep the footer itself cheap: it competes with the content for the budget
+const MAX_LISTED = 5;
+const MAX_FETCHES = 3;
+const MAX_FOOTER_SHARE = 0.25; // past this share of the budget, the footer shrinks to its short form
+
+function select(items: BudgetItem[], limit: number, estimator: TokenEstimator) {
+  const order = items
+    .map((item, i) => ({ item, i }))
+    .sort((a, b) => a.item.priority - b.item.priority || a.i - b.i);
+
+  const kept = new Set<string>();
+  const keptHeads = new Set<string>();
+  const hasHead = new Set(items.filter((i) => i.head).map((i) => i.group));
+  let used = 0;
+
+  for (const { item } of order) {
+    if (!item.head && hasHead.has(item.group) && !keptHeads.has(item.group)) continue;
+    const cost = estimator(item.text);
+    if (!item.required && used + cost > limit) continue;
+    used += cost;
+    kept.add(item.id);
+    if (item.head) keptHeads.add(item.group);
+  }
+  return { kept, used };
+}
+
+function buildOmission(
+  items: BudgetItem[],
+  kept: Set<string>,
+  used: number,
+  total: number,
+  { budget, rerun }: BudgetOptions,
+  short: boolean
+): BudgetOmission | null {
+  const dropped = items.filter((i) => !kept.has(i.id));
+  if (dropped.length === 0) return null;
+
+  // A group whose head was dropped is listed once, under the head's label
+  const droppedHeads = new Set(dropped.filter((i) => i.head).map((i) => i.group));
+  const listed = dropped.filter((i) => i.head || !droppedHeads.has(i.group));
+
+  const byLabel = new Map<string, string[]>();
+  for (const i of listed) {
+    const names = byLabel.get(i.label) ?? [];
+    if (!names.includes(i.group)) names.push(i.group);
+    byLabel.set(i.label, names);
+  }
+
+  return {
+    budget,
+    used,
+    total,
+    omitted: [...byLabel].map(([label, names]) => ({ label, names })),
+    fetch: [...new Set(listed.map((i) => i.fetch))],
+    rerun: rerun(total),
+    ...(short && { short }),
+  };
+}
+
+/** Plain-text footer; also what the footer is assumed to cost when reserving budget */
+export function formatOmission(o: BudgetOmission): string[] {
+  const lines = [`── Omitted to fit --budget ${o.budget} (~${o.used} tokens shown) ──`];
+  if (o.short) return [...lines, `→ ${o.rerun}   (everything, ~${o.total} tokens)`];
+  for (const { label, names } of o.omitted) {
+    const more = names.length > MAX_LISTED ? `, +${names.length - MAX_LISTED} more` : "";
+    lines.push(`- ${label} (${names.length}): ${names.slice(0, MAX_LISTED).join(", ")}${more}`);
+  }
+  for (const f of o.fetch.slice(0, MAX_FETCHES)) lines.push(`→ ${f}`);
+  lines.push(`→ ${o.rerun}   (everything, ~${o.total} tokens)`);
+  return lines;
+}
+
+/**
+ * Pick which items fit in the budget, highest priority first; only `required`
+ * items may go past it. The footer listing what was left out counts against the
+ * budget too, so selection is re-run with the footer's cost reserved until both
+ * fit. A footer that would eat more than
+ * a quarter of the budget is cut down to the rerun command, so small budgets
+ * still show content rather than a list of what's missing.
+ */
+export function fitToBudget(items: BudgetItem[], opts: BudgetOptions): BudgetResult {
+  const estimator = opts.estimator ?? estimateTokens;
+  const fixed = opts.fixed ? estimator(opts.fixed) : 0;
+  const total = items.reduce((sum, i) => sum + estimator(i.text), fixed);
+
+  const fit = (short: boolean) => {
+    let reserve = 0;
+    for (;;) {
+      const { kept, used } = select(items, Math.max(0, opts.budget - fixed - reserve), estimator);
+      const omission = buildOmission(items, kept, used + fixed, total, opts, short);
+      const footerCost = omission ? estimator(formatOmission(omission).join("\n")) : 0;
+      if (footerCost <= reserve || reserve >= opts.budget) return { kept, omission, footerCost };
+      reserve = footerCost;
+    }
+  };
+
+  const full = fit(false);
+  if (full.footerCost <= opts.budget * MAX_FOOTER_SHARE) return { kept: full.kept, omission: full.omission };
+  const { kept, omission } = fit(true);
+  return { kept, omission };
+}
@@ -1,32 +1,40 @@
 import fs from "node:fs/promises";
+import fsSync from "node:fs";
 import path from "node:path";
 import crypto from "node:crypto";
 import { execSync } from "node:child_process";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { normalizeKeyword, matchesKeywordQuery, type KeywordQuery } from "./query.js";
+import { withLock, writeFileAtomic } from "./lock.js";
 
 // ── Module Cards ─────────────────────────────────────────────────────────────
 
 export type ExportEntry = {
   name: string;
-  kind: "function" | "class" | "constant" | "type" | "other";
+  kind: "function" | "class" | "constant" | "type" | "enum" | "namespace" | "other";
 };
 
 export type RepoctxFileCache = {
   path: string;
   hash: string;                        // SHA1 of file content
-  publicSurfaceHash?: string | undefined; // SHA1 of joined symbol names — fast contract change detection
+  publicSurfaceHash?: string | undefined; // SHA1 of the export surface (name:kind) — fast contract change detection
   summary: string;
   symbols: string[];                   // simple list for display
   exports?: ExportEntry[] | undefined; // typed exports surface
+  manualExports?: string[] | undefined; // names in symbols/exports given by hand that the parser didn't find
   keywords?: string[] | undefined;
   dependencies?: string[] | undefined;
+  imports?: string[] | undefined;      // local files this module imports (resolved, repo-relative)
+  importers?: string[] | undefined;    // local files that import this module
   footguns?: string | undefined;
   delta?: string | undefined;
   repoHeadAtSave?: string | undefined;
+  source?: "scan" | undefined;         // drafted by `repoctx scan` and not yet reviewed; a save drops it
   updatedAt: string;
 };
 
 export type RepoctxIndex = {
-  version: 1;
+  version: number;                                       // store format, see STORE_VERSION and migrate.ts
   metaVersion?: number | undefined;
   files: Record<string, { hash: string; ref: string }>; // path → { hash, ref }
   keywordIndex: Record<string, string[]>;               // keyword → [paths]
@@ -41,24 +49,97 @@ export type SymbolRelation = {
 
 export type SymbolCard = {
   symbol: string;
-  kind: "function" | "class" | "constant" | "type" | "other";
+  kind: "function" | "class" | "constant" | "type" | "enum" | "namespace" | "other";
   file: string;
   signature?: string | undefined;
   purpose: string;
   related?: SymbolRelation[] | undefined;
   keywords?: string[] | undefined;
+  source?: "scan" | undefined; // drafted by `repoctx scan` from JSDoc; a save-symbol drops it
   updatedAt: string;
 };
 
+/** One line of a card's history: the card as saved, and the commit it was saved at */
+export type CardHistoryEntry<T> = {
+  at: string;
+  head?: string | undefined;
+  card: T;
+};
+
 export type SymbolsIndex = {
   version: 1;
   symbols: Record<string, string>; // symbolName → filename in symbols dir
 };
 
+// ── Search Index ─────────────────────────────────────────────────────────────
+
+export type SearchIndex = {
+  version: 1;
+  docs: Record<string, number>;                      // docId → weighted length
+  postings: Record<string, Record<string, number>>;  // term → docId → weighted term frequency
+};
+
+/** Format of a .repoctx/ store written by this version; older stores are upgraded by migrate.ts */
+export const STORE_VERSION = 3;
+
 // ── Paths ─────────────────────────────────────────────────────────────────────
 
-function repoRoot() {
-  return process.cwd();
+// The store lives at the repo root: the nearest ancestor with a .repoctx/
+// directory (so a workspace package can keep its own), else the git top level.
+// Every path stored in a card is relative to it.
+
+const rootOverride = new AsyncLocalStorage<string>();
+let discovered: { cwd: string; root: string } | null = null;
+
+function discoverRoot(cwd: string): string {
+  for (let dir = cwd; ; dir = path.dirname(dir)) {
+    if (fsSync.statSync(path.join(dir, ".repoctx"), { throwIfNoEntry: false })?.isDirectory()) return dir;
+    if (path.dirname(dir) === dir) break;
+  }
+  try {
+    const top = execSync("git rev-parse --show-toplevel", { cwd, encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+    if (top) return path.resolve(top);
+  } catch {
+    // not a git repository
+  }
+  return cwd;
+}
+
+export function repoRoot(): string {
+  const override = rootOverride.getStore();
+  if (override) return override;
+  const cwd = process.cwd();
+  if (discovered?.cwd !== cwd) discovered = { cwd, root: discoverRoot(cwd) };
+  return discovered.root;
+}
+
+/** Run `fn` against the store rooted at `root`, e.g. a workspace package's own .repoctx/ */
+export function withRepoRoot<T>(root: string, fn: () => Promise<T>): Promise<T> {
+  return rootOverride.run(path.resolve(root), fn);
+}
+
+/**
+ * A path as the user typed it, as stored in cards: relative to the root, forward
+ * slashes. Relative paths resolve against the cwd, or against the root when
+ * nothing exists there, so the root-relative commands we print work anywhere.
+ */
+export function toRepoPath(p: string): string {
+  let abs = path.resolve(p);
+  if (!path.isAbsolute(p) && !fsSync.existsSync(abs) && fsSync.existsSync(path.resolve(repoRoot(), p))) {
+    abs = path.resolve(repoRoot(), p);
+  }
+  return path.relative(repoRoot(), abs).replaceAll("\\", "/");
+}
+
+/** A path read from a card (`SymbolCard.file` may be "./src/x.ts" or absolute), normalized for comparison */
+export function normalizeRepoPath(p: string): string {
+  if (path.isAbsolute(p)) return toRepoPath(p);
+  return path.posix.normalize(p.replaceAll("\\", "/")).replace(/^\.\//, "");
+}
+
+/** Absolute path of a stored, root-relative path */
+export function fromRepoPath(rel: string): string {
+  return path.resolve(repoRoot(), rel);
 }
 
 export function repoctxDir() {
@@ -81,6 +162,32 @@ function symbolsIndexFile() {
   return path.join(repoctxDir(), "symbols-index.json");
 }
 
+function searchIndexFile() {
+  return path.join(repoctxDir(), "search-index.json");
+}
+
+function historyDir() {
+  return path.join(repoctxDir(), "history");
+}
+
+function statCacheFile() {
+  return path.join(repoctxDir(), "stat-cache.json");
+}
+
+/** Where each part of the store lives, for `repoctx doctor` */
+export function storeLayout() {
+  return {
+    dir: repoctxDir(),
+    index: indexFile(),
+    symbolsIndex: symbolsIndexFile(),
+    searchIndex: searchIndexFile(),
+    statCache: statCacheFile(),
+    files: filesDir(),
+    symbols: symbolsDir(),
+    history: historyDir(),
+  };
+}
+
 export async function ensureDirs() {
   await fs.mkdir(filesDir(), { recursive: true });
   await fs.mkdir(symbolsDir(), { recursive: true });
@@ -88,9 +195,84 @@ export async function ensureDirs() {
 
 // ── Hashing ───────────────────────────────────────────────────────────────────
 
+export function contentHash(content: Buffer | string) {
+  return crypto.createHash("sha1").update(content).digest("hex");
+}
+
 export async function fileHash(file: string) {
-  const buf = await fs.readFile(file);
-  return crypto.createHash("sha1").update(buf).digest("hex");
+  return contentHash(await fs.readFile(file));
+}
+
+// ── Stat cache ────────────────────────────────────────────────────────────────
+// path → (mtime, size, inode, hash). A file whose stat matches its entry is not
+// re-read. Derived and machine-local: unreadable means empty.
+
+type StatEntry = { mtimeMs: number; size: number; ino: number; hash: string };
+type StatCache = { version: 1; entries: Record<string, StatEntry> };
+
+/** Files modified this recently may change again within the same mtime tick; always hash them */
+const RACY_WINDOW_MS = 2000;
+
+type LoadedStatCache = { cache: StatCache; dirty: Map<string, StatEntry> };
+
+/** One per store root, since a query can span workspace stores */
+const statCaches = new Map<string, Promise<LoadedStatCache>>();
+
+/** Per-process counters, reported by --verbose */
+export const hashStats = { hashed: 0, cached: 0 };
+
+async function loadStatCache(): Promise<StatCache> {
+  try {
+    return JSON.parse(await fs.readFile(statCacheFile(), "utf8"));
+  } catch {
+    return { version: 1, entries: {} };
+  }
+}
+
+function rootStatCache(): Promise<LoadedStatCache> {
+  const root = repoRoot();
+  let loaded = statCaches.get(root);
+  if (!loaded) {
+    loaded = loadStatCache().then((cache) => ({ cache, dirty: new Map() }));
+    statCaches.set(root, loaded);
+  }
+  return loaded;
+}
+
+/** fileHash of a root-relative (or absolute) path, skipped when size, mtime and inode match the last hash */
+export async function cachedFileHash(file: string): Promise<string> {
+  const abs = fromRepoPath(file);
+  const key = toRepoPath(abs);
+  const st = await fs.stat(abs);
+  const { cache, dirty } = await rootStatCache();
+
+  const hit = cache.entries[key];
+  if (hit && hit.mtimeMs === st.mtimeMs && hit.size === st.size && hit.ino === st.ino) {
+    hashStats.cached++;
+    return hit.hash;
+  }
+
+  const hash = await fileHash(abs);
+  hashStats.hashed++;
+  if (Date.now() - st.mtimeMs > RACY_WINDOW_MS) {
+    const entry = { mtimeMs: st.mtimeMs, size: st.size, ino: st.ino, hash };
+    cache.entries[key] = entry;
+    dirty.set(key, entry);
+  }
+  return hash;
+}
+
+/** Persist hashes computed by this process, merged over what other processes wrote meanwhile */
+export async function flushStatCache() {
+  const loaded = statCaches.get(repoRoot());
+  const dirty = loaded && (await loaded).dirty;
+  if (!dirty || dirty.size === 0) return;
+  await withStoreLock(async () => {
+    const onDisk = await loadStatCache();
+    for (const [key, entry] of dirty) onDisk.entries[key] = entry;
+    await writeFileAtomic(statCacheFile(), JSON.stringify(onDisk));
+  });
+  dirty.clear();
 }
 
 /** Stable short filename derived from the path (not content) */
@@ -102,29 +284,65 @@ export function computePublicSurfaceHash(symbols: string[]): string {
   return crypto.createHash("sha1").update(symbols.slice().sort().join(",")).digest("hex").slice(0, 12);
 }
 
-// ── Module Card I/O ───────────────────────────────────────────────────────────
+/** Surface hash over extracted exports, so a changed kind counts as a contract change too */
+export function computeExportSurfaceHash(exports: ExportEntry[]): string {
+  return computePublicSurfaceHash(exports.map((e) => `${e.name}:${e.kind}`));
+}
 
-export async function loadIndex(): Promise<RepoctxIndex> {
-  await ensureDirs();
+// ── Storage safety ────────────────────────────────────────────────────────────
+
+/** An index file exists but can't be parsed. Writers refuse to replace it with an empty index. */
+export class CorruptIndexError extends Error {
+  constructor(readonly file: string, cause: string) {
+    super(`${path.relative(repoRoot(), file)} is corrupt (${cause}). Refusing to overwrite it — run repoctx doctor --fix to rebuild it from the card files, or restore it from a backup or git.`);
+    this.name = "CorruptIndexError";
+  }
+}
+
+/** Parsed JSON, or null when the file doesn't exist; anything unreadable throws CorruptIndexError */
+async function readIndexFile<T>(file: string): Promise<T | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
   try {
-    const raw = await fs.readFile(indexFile(), "utf8");
     const parsed = JSON.parse(raw);
-    // back-compat: old index had no keywordIndex
-    if (!parsed.keywordIndex) parsed.keywordIndex = {};
+    if (typeof parsed !== "object" || parsed === null) throw new Error("not a JSON object");
     return parsed;
-  } catch {
-    return { version: 1, files: {}, keywordIndex: {} };
+  } catch (e) {
+    throw new CorruptIndexError(file, raw.trim() === "" ? "empty file" : (e as Error).message);
   }
 }
 
+/** Serialize read-modify-write of .repoctx/ across processes (re-entrant) */
+export function withStoreLock<T>(fn: () => Promise<T>): Promise<T> {
+  return withLock(repoctxDir(), fn);
+}
+
+// ── Module Card I/O ───────────────────────────────────────────────────────────
+
+export async function loadIndex(): Promise<RepoctxIndex> {
+  await ensureDirs();
+  const parsed = await readIndexFile<RepoctxIndex>(indexFile());
+  if (!parsed) return { version: STORE_VERSION, files: {}, keywordIndex: {} };
+  if (parsed.version > STORE_VERSION) {
+    throw new Error(`.repoctx/ was written by a newer repoctx (format ${parsed.version}, this one reads ${STORE_VERSION}). Upgrade repoctx.`);
+  }
+  return parsed;
+}
+
 export async function saveIndex(idx: RepoctxIndex) {
-  await fs.writeFile(indexFile(), JSON.stringify(idx, null, 2), "utf8");
+  await writeFileAtomic(indexFile(), JSON.stringify(idx, null, 2));
 }
 
 export async function loadFileCache(
-  relativePath: string
+  relativePath: string,
+  idx?: RepoctxIndex // pass an already-loaded index to skip re-reading it
 ): Promise<RepoctxFileCache | null> {
-  const idx = await loadIndex();
+  idx ??= await loadIndex();
   const entry = idx.files[relativePath];
   if (!entry) return null;
   try {
@@ -137,91 +355,404 @@ export async function loadFileCache(
 
 export async function saveFileCache(
   relativePath: string,
-  data: RepoctxFileCache
+  data: RepoctxFileCache,
+  { history = true }: { history?: boolean } = {} // false for derived fields and migrations: not a new version
 ) {
-  const idx = await loadIndex();
-  const ref = refFromPath(relativePath);
-
-  await fs.writeFile(
-    path.join(filesDir(), ref),
-    JSON.stringify(data, null, 2),
-    "utf8"
-  );
-
-  // Update file entry
-  idx.files[relativePath] = { hash: data.hash, ref };
-
-  // Rebuild keyword index for this path
-  const keywords = data.keywords ?? [];
-  // Remove this path from all existing keyword entries first
-  for (const kw of Object.keys(idx.keywordIndex)) {
-    idx.keywordIndex[kw] = (idx.keywordIndex[kw] ?? []).filter((p) => p !== relativePath);
-    if ((idx.keywordIndex[kw] ?? []).length === 0) delete idx.keywordIndex[kw];
-  }
-  // Add to new keywords
-  for (const kw of keywords) {
-    if (!idx.keywordIndex[kw]) idx.keywordIndex[kw] = [];
-    if (!idx.keywordIndex[kw]!.includes(relativePath)) {
-      idx.keywordIndex[kw]!.push(relativePath);
+  return withStoreLock(async () => {
+    const idx = await loadIndex();
+    const ref = refFromPath(relativePath);
+
+    if (history) {
+      const prev = idx.files[relativePath] ? await loadFileCache(relativePath, idx) : null;
+      await appendHistory(ref, prev && { at: prev.updatedAt, head: prev.repoHeadAtSave, card: prev }, {
+        at: data.updatedAt,
+        head: data.repoHeadAtSave,
+        card: data,
+      });
     }
-  }
 
-  await saveIndex(idx);
+    await writeFileAtomic(path.join(filesDir(), ref), JSON.stringify(data, null, 2));
+
+    // Update file entry
+    idx.files[relativePath] = { hash: data.hash, ref };
+
+    // Rebuild keyword index for this path
+    const keywords = (data.keywords ?? []).map(normalizeKeyword);
+    // Remove this path from all existing keyword entries first
+    for (const kw of Object.keys(idx.keywordIndex)) {
+      idx.keywordIndex[kw] = (idx.keywordIndex[kw] ?? []).filter((p) => p !== relativePath);
+      if ((idx.keywordIndex[kw] ?? []).length === 0) delete idx.keywordIndex[kw];
+    }
+    // Add to new keywords
+    for (const kw of keywords) {
+      if (!idx.keywordIndex[kw]) idx.keywordIndex[kw] = [];
+      if (!idx.keywordIndex[kw]!.includes(relativePath)) {
+        idx.keywordIndex[kw]!.push(relativePath);
+      }
+    }
+
+    await saveIndex(idx);
+    await updateSearchDoc(moduleDocId(relativePath), moduleSearchFields(data));
+  });
+}
+
+// ── Bulk loading ──────────────────────────────────────────────────────────────
+
+const READ_CONCURRENCY = 32;
+
+/** Map with at most `limit` calls in flight; results keep the input order */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/** Module cards for `paths` (default: all) from one index read and concurrent card reads; unreadable cards are skipped */
+export async function loadFileCaches(paths?: string[], idx?: RepoctxIndex): Promise<RepoctxFileCache[]> {
+  const index = idx ?? await loadIndex();
+  const cards = await mapConcurrent(paths ?? Object.keys(index.files), READ_CONCURRENCY, (rel) => loadFileCache(rel, index));
+  return cards.filter((c): c is RepoctxFileCache => c !== null);
+}
+
+/**
+ * Re-key a module card from one path to another: card file, ref and keyword
+ * index entries all move. The content hash is kept so an unchanged file stays fresh.
+ */
+export async function moveFileCache(fromPath: string, toPath: string): Promise<boolean> {
+  return withStoreLock(async () => {
+    const idx = await loadIndex();
+    const entry = idx.files[fromPath];
+    if (!entry) return false;
+
+    const card = await loadFileCache(fromPath);
+    if (!card) return false;
+
+    const ref = refFromPath(toPath);
+    await writeFileAtomic(path.join(filesDir(), ref), JSON.stringify({ ...card, path: toPath }, null, 2));
+    if (entry.ref !== ref) {
+      await fs.rm(path.join(filesDir(), entry.ref), { force: true });
+      await moveHistory(entry.ref, ref);
+    }
+
+    delete idx.files[fromPath];
+    idx.files[toPath] = { hash: entry.hash, ref };
+
+    for (const kw of Object.keys(idx.keywordIndex)) {
+      const paths = idx.keywordIndex[kw] ?? [];
+      if (!paths.includes(fromPath)) continue;
+      idx.keywordIndex[kw] = [...new Set(paths.map((p) => (p === fromPath ? toPath : p)))];
+    }
+
+    await saveIndex(idx);
+    await updateSearchDoc(moduleDocId(fromPath), null);
+    await updateSearchDoc(moduleDocId(toPath), moduleSearchFields({ ...card, path: toPath }));
+    return true;
+  });
 }
 
-/** O(1) keyword lookup using the index */
-export async function lookupByKeywords(keywords: string[]): Promise<string[]> {
+/** Drop a module card: index entry, keyword index entries, ref file and search doc */
+export async function removeFileCache(relativePath: string): Promise<boolean> {
+  return withStoreLock(async () => {
+    const idx = await loadIndex();
+    const entry = idx.files[relativePath];
+    if (!entry) return false;
+
+    delete idx.files[relativePath];
+    for (const kw of Object.keys(idx.keywordIndex)) {
+      idx.keywordIndex[kw] = (idx.keywordIndex[kw] ?? []).filter((p) => p !== relativePath);
+      if ((idx.keywordIndex[kw] ?? []).length === 0) delete idx.keywordIndex[kw];
+    }
+
+    await saveIndex(idx);
+    await fs.rm(path.join(filesDir(), entry.ref), { force: true });
+    await updateSearchDoc(moduleDocId(relativePath), null);
+    return true;
+  });
+}
+
+/** Evaluate a keyword query against the keyword index; returns matching paths */
+export async function lookupByKeywordQuery(query: KeywordQuery): Promise<string[]> {
   const idx = await loadIndex();
-  const sets = keywords.map((k) => new Set(idx.keywordIndex[k] ?? []));
-  // OR logic: union of all sets
-  const union = new Set<string>();
-  for (const s of sets) for (const p of s) union.add(p);
-  return [...union];
+  const byPath = new Map<string, Set<string>>(Object.keys(idx.files).map((p) => [p, new Set()]));
+  for (const [kw, paths] of Object.entries(idx.keywordIndex)) {
+    for (const p of paths) byPath.get(p)?.add(kw);
+  }
+  return [...byPath]
+    .filter(([, kws]) => matchesKeywordQuery(query, (k) => kws.has(k)))
+    .map(([p]) => p);
 }
 
 // ── Symbol Card I/O ───────────────────────────────────────────────────────────
 
 export async function loadSymbolsIndex(): Promise<SymbolsIndex> {
   await ensureDirs();
+  return (await readIndexFile<SymbolsIndex>(symbolsIndexFile())) ?? { version: 1, symbols: {} };
+}
+
+export async function saveSymbolCard(
+  data: SymbolCard,
+  { history = true }: { history?: boolean } = {} // false for rewrites that aren't a new version (migrations)
+) {
+  return withStoreLock(async () => {
+    const idx = await loadSymbolsIndex();
+    const fname = refFromPath("symbol:" + data.symbol);
+    if (history) {
+      const prev = idx.symbols[data.symbol] ? await loadSymbolCard(data.symbol) : null;
+      await appendHistory(fname, prev && { at: prev.updatedAt, card: prev }, {
+        at: data.updatedAt,
+        head: getGitHead() ?? undefined,
+        card: data,
+      });
+    }
+    await writeFileAtomic(path.join(symbolsDir(), fname), JSON.stringify(data, null, 2));
+    idx.symbols[data.symbol] = fname;
+    await writeFileAtomic(symbolsIndexFile(), JSON.stringify(idx, null, 2));
+    await updateSearchDoc(symbolDocId(data.symbol), symbolSearchFields(data));
+  });
+}
+
+export async function removeSymbolCard(name: string): Promise<boolean> {
+  return withStoreLock(async () => {
+    const idx = await loadSymbolsIndex();
+    const fname = idx.symbols[name];
+    if (!fname) return false;
+
+    delete idx.symbols[name];
+    await writeFileAtomic(symbolsIndexFile(), JSON.stringify(idx, null, 2));
+    await fs.rm(path.join(symbolsDir(), fname), { force: true });
+    await updateSearchDoc(symbolDocId(name), null);
+    return true;
+  });
+}
+
+/**
+ * Store a symbol card under a new name (`data.symbol`): the card file, index
+ * entry and search doc move, and its history is carried along.
+ */
+export async function moveSymbolCard(fromName: string, data: SymbolCard): Promise<boolean> {
+  return withStoreLock(async () => {
+    const idx = await loadSymbolsIndex();
+    const fromRef = idx.symbols[fromName];
+    if (!fromRef) return false;
+
+    const ref = refFromPath("symbol:" + data.symbol);
+    await writeFileAtomic(path.join(symbolsDir(), ref), JSON.stringify(data, null, 2));
+    if (fromRef !== ref) {
+      await fs.rm(path.join(symbolsDir(), fromRef), { force: true });
+      await moveHistory(fromRef, ref);
+    }
+
+    delete idx.symbols[fromName];
+    idx.symbols[data.symbol] = ref;
+    await writeFileAtomic(symbolsIndexFile(), JSON.stringify(idx, null, 2));
+    await updateSearchDoc(symbolDocId(fromName), null);
+    await updateSearchDoc(symbolDocId(data.symbol), symbolSearchFields(data));
+    return true;
+  });
+}
+
+export async function loadSymbolCard(name: string): Promise<SymbolCard | null> {
+  const idx = await loadSymbolsIndex();
+  const fname = idx.symbols[name];
+  if (!fname) return null;
   try {
-    const raw = await fs.readFile(symbolsIndexFile(), "utf8");
+    const raw = await fs.readFile(path.join(symbolsDir(), fname), "utf8");
     return JSON.parse(raw);
   } catch {
-    return { version: 1, symbols: {} };
+    return null;
   }
 }
 
-export async function saveSymbolCard(data: SymbolCard) {
-  const idx = await loadSymbolsIndex();
-  const fname = refFromPath("symbol:" + data.symbol);
-  await fs.writeFile(
-    path.join(symbolsDir(), fname),
-    JSON.stringify(data, null, 2),
-    "utf8"
-  );
-  idx.symbols[data.symbol] = fname;
-  await fs.writeFile(symbolsIndexFile(), JSON.stringify(idx, null, 2), "utf8");
-}
-
 export async function loadAllSymbols(): Promise<SymbolCard[]> {
   const idx = await loadSymbolsIndex();
-  const results: SymbolCard[] = [];
-  for (const fname of Object.values(idx.symbols)) {
+  const cards = await mapConcurrent(Object.values(idx.symbols), READ_CONCURRENCY, async (fname) => {
     try {
       const raw = await fs.readFile(path.join(symbolsDir(), fname), "utf8");
-      results.push(JSON.parse(raw));
+      return JSON.parse(raw) as SymbolCard;
     } catch {
-      // skip corrupt entries
+      return null; // skip corrupt entries
     }
+  });
+  return cards.filter((c): c is SymbolCard => c !== null);
+}
+
+// ── Card history ──────────────────────────────────────────────────────────────
+// Append-only JSONL per card ref under .repoctx/history/: every save adds the
+// card as saved. Removing a card keeps its history; moving one carries it along.
+
+function historyFile(ref: string) {
+  return path.join(historyDir(), ref.replace(/\.json$/, ".jsonl"));
+}
+
+/** Append `entry`; `prev` (the card being overwritten) seeds a history that doesn't exist yet, e.g. for cards saved before histories were kept */
+async function appendHistory<T>(ref: string, prev: CardHistoryEntry<T> | null, entry: CardHistoryEntry<T>) {
+  const file = historyFile(ref);
+  await fs.mkdir(historyDir(), { recursive: true });
+  const seed = prev && !fsSync.existsSync(file) ? JSON.stringify(prev) + "\n" : "";
+  await fs.appendFile(file, seed + JSON.stringify(entry) + "\n");
+}
+
+async function moveHistory(fromRef: string, toRef: string) {
+  try {
+    await fs.rename(historyFile(fromRef), historyFile(toRef));
+  } catch {
+    // no history yet
   }
-  return results;
+}
+
+async function readHistory<T>(ref: string): Promise<CardHistoryEntry<T>[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(historyFile(ref), "utf8");
+  } catch {
+    return [];
+  }
+  const entries: CardHistoryEntry<T>[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // a torn last line from a crashed write; the rest is still good
+    }
+  }
+  // Branches' lines interleave after a union merge; a stable sort keeps same-instant saves in file order
+  return entries.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/** Every saved version of a module card, oldest first */
+export function loadModuleHistory(relativePath: string): Promise<CardHistoryEntry<RepoctxFileCache>[]> {
+  return readHistory(refFromPath(relativePath));
+}
+
+/** Every saved version of a symbol card, oldest first */
+export function loadSymbolHistory(name: string): Promise<CardHistoryEntry<SymbolCard>[]> {
+  return readHistory(refFromPath("symbol:" + name));
+}
+
+// ── Search Index I/O ──────────────────────────────────────────────────────────
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is",
+  "it", "of", "on", "or", "the", "this", "to", "with",
+]);
+
+/** Lowercased terms; camelCase/snake_case identifiers also yield their parts */
+export function tokenize(text: string): string[] {
+  const out: string[] = [];
+  for (const word of text.split(/[^A-Za-z0-9_$]+/)) {
+    if (!word) continue;
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+      .split(/[\s_$]+/)
+      .filter(Boolean);
+    const terms = parts.length > 1 ? [word, ...parts] : [word];
+    for (const t of terms) {
+      const term = t.toLowerCase();
+      if (term.length < 2 || STOPWORDS.has(term)) continue;
+      out.push(term);
+    }
+  }
+  return out;
+}
+
+/** Text fields of a card with their ranking weight (names count more than prose) */
+export type SearchField = { text: string; weight: number };
+
+export function moduleDocId(relativePath: string) {
+  return "module:" + relativePath;
+}
+
+export function symbolDocId(symbol: string) {
+  return "symbol:" + symbol;
+}
+
+export function moduleSearchFields(card: RepoctxFileCache): SearchField[] {
+  return [
+    { text: card.path, weight: 2 },
+    { text: card.symbols.join(" "), weight: 3 },
+    { text: (card.keywords ?? []).join(" "), weight: 2 },
+    { text: card.summary, weight: 1 },
+    { text: card.footguns ?? "", weight: 1 },
+    { text: card.delta ?? "", weight: 1 },
+  ];
+}
+
+export function symbolSearchFields(card: SymbolCard): SearchField[] {
+  return [
+    { text: card.symbol, weight: 3 },
+    { text: (card.keywords ?? []).join(" "), weight: 2 },
+    { text: card.purpose, weight: 1 },
+    { text: card.signature ?? "", weight: 1 },
+    { text: card.file, weight: 1 },
+  ];
+}
+
+/** Derived data: a missing or unreadable search index is simply rebuilt from the cards */
+export async function loadSearchIndex(): Promise<SearchIndex | null> {
+  try {
+    const raw = await fs.readFile(searchIndexFile(), "utf8");
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveSearchIndex(idx: SearchIndex) {
+  await writeFileAtomic(searchIndexFile(), JSON.stringify(idx));
+}
+
+function removeSearchDoc(idx: SearchIndex, docId: string) {
+  delete idx.docs[docId];
+  for (const term of Object.keys(idx.postings)) {
+    const post = idx.postings[term]!;
+    if (!(docId in post)) continue;
+    delete post[docId];
+    if (Object.keys(post).length === 0) delete idx.postings[term];
+  }
+}
+
+export function addSearchDoc(idx: SearchIndex, docId: string, fields: SearchField[]) {
+  let length = 0;
+  for (const { text, weight } of fields) {
+    for (const term of tokenize(text)) {
+      const post = (idx.postings[term] ??= {});
+      post[docId] = (post[docId] ?? 0) + weight;
+      length += weight;
+    }
+  }
+  idx.docs[docId] = length;
+}
+
+/** Replace (or with `fields === null`, drop) one document in the search index */
+export async function updateSearchDoc(docId: string, fields: SearchField[] | null) {
+  return withStoreLock(async () => {
+    // A missing search index is rebuilt in full on the next search, nothing to patch
+    const idx = await loadSearchIndex();
+    if (!idx) return;
+    removeSearchDoc(idx, docId);
+    if (fields) addSearchDoc(idx, docId, fields);
+    await saveSearchIndex(idx);
+  });
 }
 
 // ── Git helpers ───────────────────────────────────────────────────────────────
 
 export function getGitHead(): string | null {
   try {
-    return execSync("git rev-parse HEAD", { encoding: "utf8" }).trim();
+    return execSync("git rev-parse HEAD", { cwd: repoRoot(), encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }).trim();
   } catch {
     return null;
   }
@@ -229,7 +760,7 @@ export function getGitHead(): string | null {
 
 export function getGitBranch(): string | null {
   try {
-    return execSync("git rev-parse --abbrev-ref HEAD", { encoding: "utf8" }).trim();
+    return execSync("git rev-parse --abbrev-ref HEAD", { cwd: repoRoot(), encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] }).trim();
   } catch {
     return null;
   }
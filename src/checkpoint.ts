@@ -1,9 +1,11 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { execSync } from "node:child_process";
-import { repoctxDir, ensureDirs } from "./cache.js";
+import { repoctxDir, ensureDirs, withStoreLock, repoRoot } from "./cache.js";
+import { writeFileAtomic } from "./lock.js";
 
-type Checkpoint = {
+export type Checkpoint = {
+  name?: string | undefined;
   head: string;
   branch: string;
   at: string;
@@ -12,34 +14,80 @@ type Checkpoint = {
 type RepoctxState = {
   repoRoot: string;
   lastCheckpoint: Checkpoint;
+  checkpoints?: Record<string, Checkpoint> | undefined; // name → checkpoint
+  branches?: Record<string, Checkpoint> | undefined;    // branch → its last checkpoint, for switching back
 };
 
+/** Diff endpoints that aren't commits, so they can't be checkpoint names */
+export const RESERVED_ENDPOINTS = ["worktree", "staged"];
+
 function stateFile() {
   return path.join(repoctxDir(), "state.json");
 }
 
-export async function saveCheckpoint(): Promise<Checkpoint> {
-  const head = execSync("git rev-parse HEAD", { encoding: "utf8" }).trim();
-  const branch = execSync("git rev-parse --abbrev-ref HEAD", { encoding: "utf8" }).trim();
+async function loadState(): Promise<RepoctxState | null> {
+  try {
+    const raw = await fs.readFile(stateFile(), "utf8");
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/** Save HEAD as the last checkpoint (and the branch's), and under `name` too when given (overwriting that name) */
+export async function saveCheckpoint({ name }: { name?: string } = {}): Promise<Checkpoint> {
+  if (name !== undefined && (!name.trim() || RESERVED_ENDPOINTS.includes(name))) {
+    throw new Error(`Invalid checkpoint name "${name}"`);
+  }
+  const head = execSync("git rev-parse HEAD", { cwd: repoRoot(), encoding: "utf8" }).trim();
+  const branch = execSync("git rev-parse --abbrev-ref HEAD", { cwd: repoRoot(), encoding: "utf8" }).trim();
   const at = new Date().toISOString();
+  const cp: Checkpoint = { ...(name !== undefined && { name }), head, branch, at };
 
-  const state: RepoctxState = {
-    repoRoot: process.cwd(),
-    lastCheckpoint: { head, branch, at },
-  };
+  await ensureDirs();
+  await withStoreLock(async () => {
+    const prev = await loadState();
+    const state: RepoctxState = {
+      repoRoot: repoRoot(),
+      lastCheckpoint: cp,
+      ...(prev?.checkpoints && { checkpoints: prev.checkpoints }),
+      ...(prev?.branches && { branches: prev.branches }),
+    };
+    if (name !== undefined) state.checkpoints = { ...state.checkpoints, [name]: cp };
+    if (branch !== "HEAD") state.branches = { ...state.branches, [branch]: cp }; // "HEAD" = detached
+    await writeFileAtomic(stateFile(), JSON.stringify(state, null, 2));
+  });
+
+  return cp;
+}
+
+/**
+ * After a branch switch: make the new branch's own last checkpoint current
+ * again, or checkpoint HEAD when the branch has none yet.
+ */
+export async function switchBranchCheckpoint(): Promise<{ checkpoint: Checkpoint; restored: boolean }> {
+  const branch = execSync("git rev-parse --abbrev-ref HEAD", { cwd: repoRoot(), encoding: "utf8" }).trim();
+  const saved = branch === "HEAD" ? undefined : (await loadState())?.branches?.[branch];
+  if (!saved) return { checkpoint: await saveCheckpoint(), restored: false };
 
   await ensureDirs();
-  await fs.writeFile(stateFile(), JSON.stringify(state, null, 2), "utf8");
+  await withStoreLock(async () => {
+    const state = await loadState();
+    if (!state) return;
+    await writeFileAtomic(stateFile(), JSON.stringify({ ...state, lastCheckpoint: saved }, null, 2));
+  });
+  return { checkpoint: saved, restored: true };
+}
 
-  return { head, branch, at };
+/** The named checkpoint, or the last one saved when no name is given */
+export async function loadCheckpoint(name?: string): Promise<Checkpoint | null> {
+  const state = await loadState();
+  if (name === undefined) return state?.lastCheckpoint ?? null;
+  return state?.checkpoints?.[name] ?? null;
 }
 
-export async function loadCheckpoint(): Promise<Checkpoint | null> {
-  try {
-    const raw = await fs.readFile(stateFile(), "utf8");
-    const state: RepoctxState = JSON.parse(raw);
-    return state.lastCheckpoint ?? null;
-  } catch {
-    return null;
-  }
+export async function listCheckpoints(): Promise<{ last: Checkpoint | null; named: Checkpoint[] }> {
+  const state = await loadState();
+  const named = Object.values(state?.checkpoints ?? {}).sort((a, b) => a.at.localeCompare(b.at));
+  return { last: state?.lastCheckpoint ?? null, named };
 }
@@ -0,0 +1,245 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { repoRoot, repoctxDir } from "./cache.js";
+import { normalizeKeyword } from "./query.js";
+import { OUTPUT_FORMATS, type OutputFormat } from "./render.js";
+
+// ── Project configuration ─────────────────────────────────────────────────────
+// repoctx.config.json at the repo root (commit it to share conventions), or
+// .repoctx/config.json (local, since .repoctx/ is gitignored by default). When
+// both exist the root file wins. Every key is optional.
+
+export type RepoctxConfig = {
+  include?: string[] | undefined;    // globs; when set, only matching files count as source files
+  exclude?: string[] | undefined;    // globs never listed, scanned or saved
+  extensions?: string[] | undefined; // source file extensions, e.g. [".ts", ".js"]
+  keywords?: {
+    byPath?: Record<string, string[]> | undefined; // glob → keywords added to every card saved or scanned under it
+    vocabulary?: string[] | undefined;             // allowed keywords; saving others warns
+  } | undefined;
+  output?: {
+    format?: OutputFormat | undefined; // default --format
+    budget?: number | undefined;       // default --budget for get
+  } | undefined;
+};
+
+const ROOT_CONFIG = "repoctx.config.json";
+
+export class ConfigError extends Error {
+  constructor(file: string, problem: string) {
+    super(`Invalid ${file}: ${problem}`);
+    this.name = "ConfigError";
+  }
+}
+
+// ── Globs ─────────────────────────────────────────────────────────────────────
+
+/** `*` within a path segment, `**` across segments, `?` one character; a pattern without `/` matches the basename anywhere */
+export function globToRegExp(glob: string): RegExp {
+  const anchored = glob.includes("/");
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]!;
+    if (c === "*" && glob[i + 1] === "*") {
+      re += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(anchored ? `^${re.replace(/^\//, "")}$` : `(?:^|/)${re}$`);
+}
+
+function matchesAny(globs: string[] | undefined, file: string): boolean {
+  return (globs ?? []).some((g) => globToRegExp(g).test(file));
+}
+
+// ── Loading ───────────────────────────────────────────────────────────────────
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === "string");
+}
+
+/** Check the shape, so a typo'd key fails loudly instead of being ignored */
+export function validateConfig(raw: unknown, file: string): RepoctxConfig {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new ConfigError(file, "expected a JSON object");
+  const c = raw as Record<string, unknown>;
+  const known = ["include", "exclude", "extensions", "keywords", "output"];
+  for (const key of Object.keys(c)) {
+    if (!known.includes(key)) throw new ConfigError(file, `unknown key "${key}" (expected ${known.join(", ")})`);
+  }
+  for (const key of ["include", "exclude", "extensions"]) {
+    if (c[key] !== undefined && !isStringArray(c[key])) throw new ConfigError(file, `"${key}" must be an array of strings`);
+  }
+  if (isStringArray(c["extensions"]) && c["extensions"].some((e) => !e.startsWith("."))) {
+    throw new ConfigError(file, `"extensions" entries start with a dot, e.g. ".ts"`);
+  }
+
+  const kw = c["keywords"];
+  if (kw !== undefined) {
+    if (!kw || typeof kw !== "object" || Array.isArray(kw)) throw new ConfigError(file, `"keywords" must be an object`);
+    const { byPath, vocabulary, ...rest } = kw as Record<string, unknown>;
+    if (Object.keys(rest).length > 0) throw new ConfigError(file, `unknown key "keywords.${Object.keys(rest)[0]}" (expected byPath, vocabulary)`);
+    if (byPath !== undefined) {
+      if (!byPath || typeof byPath !== "object" || Array.isArray(byPath) || !Object.values(byPath).every(isStringArray)) {
+        throw new ConfigError(file, `"keywords.byPath" must map globs to arrays of keywords`);
+      }
+    }
+    if (vocabulary !== undefined && !isStringArray(vocabulary)) throw new ConfigError(file, `"keywords.vocabulary" must be an array of strings`);
+  }
+
+  const out = c["output"];
+  if (out !== undefined) {
+    if (!out || typeof out !== "object" || Array.isArray(out)) throw new ConfigError(file, `"output" must be an object`);
+    const { format, budget, ...rest } = out as Record<string, unknown>;
+    if (Object.keys(rest).length > 0) throw new ConfigError(file, `unknown key "output.${Object.keys(rest)[0]}" (expected format, budget)`);
+    if (format !== undefined && !(OUTPUT_FORMATS as readonly unknown[]).includes(format)) {
+      throw new ConfigError(file, `"output.format" must be one of ${OUTPUT_FORMATS.join(", ")}`);
+    }
+    if (budget !== undefined && (typeof budget !== "number" || budget <= 0)) throw new ConfigError(file, `"output.budget" must be a positive number`);
+  }
+  return c as RepoctxConfig;
+}
+
+/** The config file in effect, or where `config set` creates one: the root file if it exists, else .repoctx/config.json */
+export async function configFile(): Promise<{ file: string; exists: boolean }> {
+  const root = path.join(repoRoot(), ROOT_CONFIG);
+  const local = path.join(repoctxDir(), "config.json");
+  for (const file of [root, local]) {
+    try {
+      await fs.access(file);
+      return { file, exists: true };
+    } catch {
+      // try the next one
+    }
+  }
+  return { file: local, exists: false };
+}
+
+async function readConfigJson(file: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (e) {
+    throw new ConfigError(path.relative(repoRoot(), file), (e as Error).message);
+  }
+}
+
+async function readConfig(): Promise<RepoctxConfig> {
+  const { file, exists } = await configFile();
+  if (!exists) return {};
+  return validateConfig(await readConfigJson(file), path.relative(repoRoot(), file));
+}
+
+const configs = new Map<string, Promise<RepoctxConfig>>(); // per root, read once per process
+
+export function loadConfig(): Promise<RepoctxConfig> {
+  const root = repoRoot();
+  let config = configs.get(root);
+  if (!config) {
+    config = readConfig();
+    configs.set(root, config);
+  }
+  return config;
+}
+
+// ── Applying it ───────────────────────────────────────────────────────────────
+
+/** Whether a repo path counts as a source file: matches `include` (when set) and not `exclude` */
+export function isIncluded(config: RepoctxConfig, rel: string): boolean {
+  if (config.include?.length && !matchesAny(config.include, rel)) return false;
+  return !isExcluded(config, rel);
+}
+
+/** `exclude` also keeps cards from being saved; `include` only narrows what's listed and scanned */
+export function isExcluded(config: RepoctxConfig, rel: string): boolean {
+  return matchesAny(config.exclude, rel);
+}
+
+/** keywords.byPath entries whose glob matches `rel` */
+export function defaultKeywords(config: RepoctxConfig, rel: string): string[] {
+  const out: string[] = [];
+  for (const [glob, keywords] of Object.entries(config.keywords?.byPath ?? {})) {
+    if (globToRegExp(glob).test(rel)) out.push(...keywords.map(normalizeKeyword));
+  }
+  return [...new Set(out)];
+}
+
+/** Keywords not in keywords.vocabulary (none when there is no vocabulary) */
+export function unknownKeywords(config: RepoctxConfig, keywords: string[]): string[] {
+  const vocabulary = config.keywords?.vocabulary;
+  if (!vocabulary) return [];
+  const allowed = new Set(vocabulary.map(normalizeKeyword));
+  return [...new Set(keywords.map(normalizeKeyword))].filter((k) => !allowed.has(k));
+}
+
+/** The warning to print after saving keywords outside keywords.vocabulary, or null */
+export async function keywordWarning(keywords: string[]): Promise<string | null> {
+  const config = await loadConfig();
+  const unknown = unknownKeywords(config, keywords);
+  if (unknown.length === 0) return null;
+  return `⚠ Not in the keyword vocabulary: ${unknown.join(", ")} (allowed: ${config.keywords!.vocabulary!.join(", ")})`;
+}
+
+// ── repoctx config get / set ──────────────────────────────────────────────────
+
+/** `keywords.byPath.src/**\/*.ts` → ["keywords", "byPath", "src/**\/*.ts"]: a byPath glob may itself contain dots */
+function keyPath(key: string): string[] {
+  const parts = key.split(".");
+  return parts[0] === "keywords" && parts[1] === "byPath" && parts.length > 2
+    ? ["keywords", "byPath", parts.slice(2).join(".")]
+    : parts;
+}
+
+export async function getConfigValue(key?: string): Promise<unknown> {
+  let value: unknown = await loadConfig();
+  for (const part of key ? keyPath(key) : []) {
+    value = value && typeof value === "object" ? (value as Record<string, unknown>)[part] : undefined;
+  }
+  return value;
+}
+
+/** Keys whose value is a list: `set exclude "dist/**,*.gen.ts"` splits on commas */
+const LIST_KEYS = new Set(["include", "exclude", "extensions", "keywords.vocabulary"]);
+
+function parseValue(key: string[], raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    const isList = LIST_KEYS.has(key.join(".")) || (key[0] === "keywords" && key[1] === "byPath" && key.length === 3);
+    return isList ? raw.split(",").map((s) => s.trim()).filter(Boolean) : raw;
+  }
+}
+
+/**
+ * Set (or, with the JSON value `null`, remove) a key in the config file in
+ * effect and write it back. The result is validated before anything is written.
+ */
+export async function setConfigValue(key: string, raw: string): Promise<{ file: string; value: unknown }> {
+  const { file, exists } = await configFile();
+  const name = path.relative(repoRoot(), file);
+  // Not validated on the way in, so `set <typo'd key> null` can repair a config that fails validation
+  const current = exists ? await readConfigJson(file) : {};
+  if (!current || typeof current !== "object" || Array.isArray(current)) throw new ConfigError(name, "expected a JSON object");
+  const config = { ...(current as Record<string, unknown>) };
+
+  const parts = keyPath(key);
+  const value = parseValue(parts, raw);
+  let target = config;
+  for (const part of parts.slice(0, -1)) {
+    const next = target[part];
+    target[part] = next && typeof next === "object" && !Array.isArray(next) ? { ...next } : {};
+    target = target[part] as Record<string, unknown>;
+  }
+  if (value === null) delete target[parts[parts.length - 1]!];
+  else target[parts[parts.length - 1]!] = value;
+
+  validateConfig(config, name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(config, null, 2) + "\n");
+  configs.delete(repoRoot());
+  return { file, value };
+}
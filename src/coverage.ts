@@ -0,0 +1,140 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+import { repoRoot, fromRepoPath, normalizeRepoPath, loadIndex, loadAllSymbols } from "./cache.js";
+import { listSourceFiles, buildModuleGraph } from "./imports.js";
+import { globToRegExp } from "./config.js";
+
+// ── Coverage ──────────────────────────────────────────────────────────────────
+// Which source files have no module card, ranked so the ones most worth a
+// card come first: changed often, large, and imported by many other files.
+
+export type UncoveredFile = {
+  path: string;
+  churn: number;     // commits touching it since `since`
+  lines: number;
+  importers: number; // files that import it
+  score: number;     // each factor scaled to the largest among uncovered files, summed (0–3)
+};
+
+export type DirectoryCoverage = {
+  dir: string;
+  files: number;
+  indexed: number;
+  percent: number;
+  symbols: number; // symbol cards on this directory's indexed files
+};
+
+export type IndexedFile = { path: string; symbols: number };
+
+export type CoverageResult = {
+  type: "coverage";
+  scope: string;         // "." for the whole repo
+  since: string;
+  files: number;
+  indexed: number;
+  percent: number;
+  uncovered: UncoveredFile[];   // highest score first, capped by `top`
+  uncoveredTotal: number;
+  directories: DirectoryCoverage[];
+  indexedFiles: IndexedFile[];  // fewest symbol cards first, capped by `top`
+};
+
+/** Commits per file since `since`, in one `git log` pass; empty outside git */
+function churnByFile(since: string): Map<string, number> {
+  const churn = new Map<string, number>();
+  let raw: string;
+  try {
+    raw = execFileSync("git", ["-c", "core.quotepath=off", "log", `--since=${since}`, "--format=", "--name-only", "--no-renames"], {
+      cwd: repoRoot(),
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+      maxBuffer: 256 * 1024 * 1024,
+    });
+  } catch {
+    return churn;
+  }
+  for (const file of raw.split("\n")) {
+    if (file) churn.set(file, (churn.get(file) ?? 0) + 1);
+  }
+  return churn;
+}
+
+async function countLines(rel: string): Promise<number> {
+  try {
+    const text = await fs.readFile(fromRepoPath(rel), "utf8");
+    return text.split("\n").length - (text.endsWith("\n") ? 1 : 0);
+  } catch {
+    return 0;
+  }
+}
+
+export async function getCoverage({
+  under,
+  ignore = [],
+  since = "1 year ago",
+  top = 20,
+}: { under?: string; ignore?: string[]; since?: string; top?: number } = {}): Promise<CoverageResult> {
+  const inScope = (p: string) => !under || under === "." || p === under || p.startsWith(under + "/");
+  const ignored = ignore.map(globToRegExp);
+  // Tracked files only: scratch files nobody committed shouldn't move the percentage
+  const files = (await listSourceFiles({ tracked: true })).filter((f) => inScope(f) && !ignored.some((re) => re.test(f)));
+
+  const idx = await loadIndex();
+  const symbolsByFile = new Map<string, number>();
+  for (const card of await loadAllSymbols()) {
+    const file = normalizeRepoPath(card.file);
+    symbolsByFile.set(file, (symbolsByFile.get(file) ?? 0) + 1);
+  }
+
+  const covered = files.filter((f) => idx.files[f]);
+  const missing = files.filter((f) => !idx.files[f]);
+
+  // Ranking inputs are only worth computing when something is missing
+  const churn = missing.length > 0 ? churnByFile(since) : new Map<string, number>();
+  const importers = missing.length > 0 ? (await buildModuleGraph()).importers : new Map<string, string[]>();
+  const uncovered: UncoveredFile[] = [];
+  for (const f of missing) {
+    uncovered.push({ path: f, churn: churn.get(f) ?? 0, lines: await countLines(f), importers: importers.get(f)?.length ?? 0, score: 0 });
+  }
+  const max = (key: "churn" | "lines" | "importers") => Math.max(1, ...uncovered.map((u) => u[key]));
+  const [maxChurn, maxLines, maxImporters] = [max("churn"), max("lines"), max("importers")];
+  for (const u of uncovered) {
+    u.score = Math.round((u.churn / maxChurn + u.lines / maxLines + u.importers / maxImporters) * 100) / 100;
+  }
+  uncovered.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+
+  const dirs = new Map<string, DirectoryCoverage>();
+  for (const f of files) {
+    const dir = path.posix.dirname(f);
+    const d = dirs.get(dir) ?? { dir, files: 0, indexed: 0, percent: 0, symbols: 0 };
+    d.files++;
+    if (idx.files[f]) {
+      d.indexed++;
+      d.symbols += symbolsByFile.get(f) ?? 0;
+    }
+    dirs.set(dir, d);
+  }
+  for (const d of dirs.values()) d.percent = percent(d.indexed, d.files);
+
+  const indexedFiles = covered
+    .map((f) => ({ path: f, symbols: symbolsByFile.get(f) ?? 0 }))
+    .sort((a, b) => a.symbols - b.symbols || a.path.localeCompare(b.path));
+
+  return {
+    type: "coverage",
+    scope: under ?? ".",
+    since,
+    files: files.length,
+    indexed: covered.length,
+    percent: percent(covered.length, files.length),
+    uncovered: uncovered.slice(0, top),
+    uncoveredTotal: uncovered.length,
+    directories: [...dirs.values()].sort((a, b) => a.dir.localeCompare(b.dir)),
+    indexedFiles: indexedFiles.slice(0, top),
+  };
+}
+
+function percent(part: number, whole: number): number {
+  return whole === 0 ? 100 : Math.round((part / whole) * 1000) / 10;
+}
@@ -1,7 +1,24 @@
-import { execSync } from "node:child_process";
+import fs from "node:fs/promises";
+import { execFileSync } from "node:child_process";
 import { loadCheckpoint } from "./checkpoint.js";
+import {
+  loadIndex,
+  loadFileCaches,
+  loadAllSymbols,
+  mapConcurrent,
+  flushStatCache,
+  repoRoot,
+  fromRepoPath,
+  normalizeRepoPath,
+  type SymbolCard,
+} from "./cache.js";
+import { toModuleView, CHECK_CONCURRENCY, type ModuleView } from "./get.js";
+import { canExtractExports } from "./languages.js";
+import { parseHunks, additionHunk, hunkHeaderLine, summarizeChanges, type Hunk, type DeclarationChange } from "./symdiff.js";
+import { fitToBudget, type BudgetItem, type BudgetOmission, type TokenEstimator } from "./budget.js";
+import { diffHeaderLines, excerptTextLines, fileStatLine } from "./render.js";
 
-type FileStat = {
+export type FileStat = {
   file: string;
   additions: number;
   deletions: number;
@@ -18,77 +35,357 @@ function parseNumstat(output: string): FileStat[] {
   return results;
 }
 
-export async function runDiff({ top }: { top?: number } = {}) {
-  const checkpoint = await loadCheckpoint();
-  if (!checkpoint) {
-    return "No checkpoint found. Run `repoctx checkpoint` first.";
-  }
+/** What .repoctx/ knows about a changed file */
+export type FileContext = {
+  card: ModuleView | null; // null: the file has no module card
+  symbols: SymbolCard[];   // symbol cards whose `file` is this file
+};
+
+export type DiffExcerpt = {
+  file: string;
+  changes: DeclarationChange[]; // by enclosing declaration (JS/TS) or by hunk
+  lines: string[];              // with --hunks N: the first N hunks, header plus +/- lines
+  context?: FileContext | undefined;
+};
+
+/** One side of a diff range as the user asked for it, and the commit it resolved to */
+export type DiffEndpoint = {
+  kind: "checkpoint" | "rev" | "merge-base" | "worktree" | "staged";
+  spec: string;                    // checkpoint name, revision, branch, or "worktree" / "staged"
+  rev?: string | undefined;        // resolved commit (absent for worktree / staged)
+  at?: string | undefined;         // checkpoint time
+};
 
-  const { head, at } = checkpoint;
-  const shortHead = head.slice(0, 7);
+export type DiffResult = {
+  type: "diff";
+  status: "ok" | "no-checkpoint" | "not-git" | "no-changes" | "failed";
+  checkpoint?: { head: string; at: string } | undefined; // when diffing from a checkpoint
+  range?: { from: DiffEndpoint; to: DiffEndpoint } | undefined;
+  files: FileStat[];       // every changed file, largest change first
+  top?: number | undefined;
+  excerpts: DiffExcerpt[];
+  resave?: string[] | undefined; // `repoctx save` commands for changed files with a stale or missing card
+  omission?: BudgetOmission | undefined;
+};
 
-  let currentHead: string;
+export type DiffRangeOptions = {
+  from?: string;      // checkpoint name or revision; default: the last checkpoint
+  to?: string;        // checkpoint name, revision, "worktree" or "staged"; default: HEAD
+  mergeBase?: string; // diff from where HEAD forked off this branch instead of `from`
+};
+
+const EXCERPT_LINES = 40; // per hunk
+
+function git(args: string[]): string {
+  return execFileSync("git", ["-c", "core.quotepath=off", ...args], {
+    cwd: repoRoot(),
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "ignore"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+function resolveRev(spec: string): string | null {
   try {
-    currentHead = execSync("git rev-parse HEAD", { encoding: "utf8" }).trim();
+    return git(["rev-parse", "--verify", "--quiet", `${spec}^{commit}`]).trim() || null;
   } catch {
-    return "Not in a git repository.";
+    return null;
   }
+}
+
+/** Checkpoint names win over git revisions of the same name */
+async function resolveEndpoint(spec: string): Promise<DiffEndpoint> {
+  if (spec === "worktree" || spec === "staged") return { kind: spec, spec };
+  const cp = await loadCheckpoint(spec);
+  if (cp) return { kind: "checkpoint", spec, rev: cp.head, at: cp.at };
+  const rev = resolveRev(spec);
+  if (!rev) throw new Error(`Unknown checkpoint or revision "${spec}". List checkpoints with repoctx checkpoints`);
+  return { kind: "rev", spec, rev };
+}
+
+/** git diff arguments selecting the range (paths are appended after `--`) */
+function rangeArgs(from: DiffEndpoint, to: DiffEndpoint): string[] {
+  if (to.kind === "worktree") return [from.rev!];
+  if (to.kind === "staged") return ["--cached", from.rev!];
+  return [from.rev!, to.rev!];
+}
+
+/** The shell command a reader can run to see one file's full diff */
+function fetchCommand(from: DiffEndpoint, to: DiffEndpoint, file: string, untracked: boolean): string {
+  if (untracked) return `git diff --no-index /dev/null ${file}`;
+  const [a, b] = [from.rev!.slice(0, 7), to.rev?.slice(0, 7)];
+  if (to.kind === "worktree") return `git diff ${a} -- ${file}`;
+  if (to.kind === "staged") return `git diff --cached ${a} -- ${file}`;
+  return `git diff ${a} ${b} -- ${file}`;
+}
 
-  if (currentHead === head) {
-    return `No changes since checkpoint (${shortHead}).`;
+/** Untracked files are part of the working tree but invisible to git diff; count them as all-added */
+async function untrackedStats(): Promise<{ stat: FileStat; text: string | null }[]> {
+  const files = git(["ls-files", "--others", "--exclude-standard"])
+    .split("\n")
+    .filter((f) => f && !f.startsWith(".repoctx/"));
+  const out: { stat: FileStat; text: string | null }[] = [];
+  for (const file of files) {
+    let text: string;
+    try {
+      text = await fs.readFile(fromRepoPath(file), "utf8");
+    } catch {
+      continue;
+    }
+    if (text.includes("\0")) {
+      out.push({ stat: { file, additions: 0, deletions: 0 }, text: null }); // binary
+      continue;
+    }
+    out.push({ stat: { file, additions: splitLines(text).length, deletions: 0 }, text });
   }
+  return out;
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split("\n");
+  if (lines.at(-1) === "") lines.pop();
+  return lines;
+}
 
-  let numstatOutput: string;
+/** A file's content at one end of the range; null if it doesn't exist there */
+async function sourceAt(end: DiffEndpoint, file: string): Promise<string | null> {
   try {
-    numstatOutput = execSync(`git diff ${head}..HEAD --numstat`, { encoding: "utf8" });
+    if (end.kind === "worktree") return await fs.readFile(fromRepoPath(file), "utf8");
+    return git(["show", `${end.kind === "staged" ? "" : end.rev}:./${file}`]);
   } catch {
-    return `Could not compute diff from ${shortHead}.`;
+    return null;
   }
+}
 
-  let stats = parseNumstat(numstatOutput);
-  stats.sort((a, b) => (b.additions + b.deletions) - (a.additions + a.deletions));
+// ── Card annotations ──────────────────────────────────────────────────────────
 
-  const topStats = top ? stats.slice(0, top) : stats;
+async function fileContexts(files: string[]): Promise<Map<string, FileContext>> {
+  const idx = await loadIndex();
+  const cards = await loadFileCaches(files.filter((f) => idx.files[f]), idx);
+  const views = new Map((await mapConcurrent(cards, CHECK_CONCURRENCY, toModuleView)).map((v) => [v.path, v]));
+  await flushStatCache();
 
-  const lines: string[] = [];
-  lines.push(`# Repoctx Diff (since ${shortHead} — ${at})`);
-  lines.push("");
-  lines.push(`Files changed (${stats.length}):`);
-  lines.push("");
-
-  for (const s of topStats) {
-    lines.push(`- ${s.file} (+${s.additions} -${s.deletions})`);
+  const symbolsByFile = new Map<string, SymbolCard[]>();
+  for (const s of await loadAllSymbols()) {
+    const rel = normalizeRepoPath(s.file);
+    symbolsByFile.set(rel, [...(symbolsByFile.get(rel) ?? []), s]);
   }
+  return new Map(files.map((f) => [f, { card: views.get(f) ?? null, symbols: symbolsByFile.get(f) ?? [] }]));
+}
+
+function shellQuote(text: string): string {
+  return `"${text.replace(/(["\\$`])/g, "\\$1")}"`;
+}
+
+/**
+ * A save command that keeps what the card already says (a save replaces the whole
+ * card) and only asks for the delta; files without a card get placeholders.
+ */
+function saveCommand(file: string, card: ModuleView | null): string {
+  if (!card) return `repoctx save ${shellQuote(file)} "<summary>" --keywords "<keywords>"`;
+  const exported = new Set(card.exports?.map((e) => e.name));
+  const manual = (card.symbols ?? []).filter((s) => !exported.has(s));
+  return [
+    `repoctx save ${shellQuote(file)} ${shellQuote(card.summary ?? "")}`,
+    ...(card.keywords?.length ? [`--keywords ${shellQuote(card.keywords.join(","))}`] : []),
+    ...(manual.length ? [`--symbols ${shellQuote(manual.join(","))}`] : []),
+    ...(card.dependencies?.length ? [`--deps ${shellQuote(card.dependencies.join(","))}`] : []),
+    ...(card.footguns ? [`--footguns ${shellQuote(card.footguns)}`] : []),
+    `--delta "<what changed>"`,
+  ].join(" ");
+}
 
-  if (top && stats.length > top) {
-    lines.push(`... and ${stats.length - top} more files`);
+/** Changed files whose card is stale, or source files that have none, with the command that re-saves each */
+async function resaveCommands(contexts: Map<string, FileContext>): Promise<Map<string, string>> {
+  const commands = new Map<string, string>();
+  for (const [file, { card }] of contexts) {
+    if (card) {
+      if (card.status === "contract-changed" || card.status === "implementation-changed") {
+        commands.set(file, saveCommand(file, card));
+      }
+    } else if (canExtractExports(file) && await fs.access(fromRepoPath(file)).then(() => true, () => false)) {
+      commands.set(file, saveCommand(file, null));
+    }
   }
+  return commands;
+}
 
-  lines.push("");
-  lines.push("---");
-  lines.push("");
+export async function runDiff({
+  from: fromSpec,
+  to: toSpec,
+  mergeBase,
+  top,
+  hunks: hunkCount = 0,
+  budget,
+  estimator,
+}: DiffRangeOptions & {
+  top?: number;
+  hunks?: number;        // raw excerpts: the first N hunks of each file
 
-  for (const s of topStats) {
+  budget?: number;       // max tokens; the file list is kept first, then per-file excerpts by size
+  estimator?: TokenEstimator;
+} = {}): Promise<DiffResult> {
+  const result: DiffResult = { type: "diff", status: "ok", files: [], excerpts: [] };
+  if (top) result.top = top;
+  if (fromSpec !== undefined && mergeBase !== undefined) throw new Error("Use either --from or --merge-base, not both");
+
+  if (!resolveRev("HEAD")) return { ...result, status: "not-git" };
+
+  // ── Resolve the range ──────────────────────────────────────────────────────
+  let from: DiffEndpoint;
+  if (mergeBase !== undefined) {
+    if (!resolveRev(mergeBase)) throw new Error(`Unknown branch or revision "${mergeBase}"`);
+    let base: string;
     try {
-      const fileDiff = execSync(`git diff ${head}..HEAD -- "${s.file}"`, {
-        encoding: "utf8",
-      });
+      base = git(["merge-base", mergeBase, "HEAD"]).trim();
+    } catch {
+      return { ...result, status: "failed" };
+    }
+    from = { kind: "merge-base", spec: mergeBase, rev: base };
+  } else if (fromSpec !== undefined) {
+    from = await resolveEndpoint(fromSpec);
+    if (!from.rev) throw new Error(`--from must be a checkpoint or revision, not "${fromSpec}"`);
+  } else {
+    const checkpoint = await loadCheckpoint();
+    if (!checkpoint) return { ...result, status: "no-checkpoint" };
+    from = { kind: "checkpoint", spec: checkpoint.name ?? "last", rev: checkpoint.head, at: checkpoint.at };
+  }
+  const to = toSpec !== undefined ? await resolveEndpoint(toSpec) : { kind: "rev" as const, spec: "HEAD", rev: resolveRev("HEAD")! };
 
-      if (!fileDiff.trim()) continue;
+  result.range = { from, to };
+  if (from.kind === "checkpoint") result.checkpoint = { head: from.rev!, at: from.at ?? "" };
 
-      lines.push(`[${s.file}]`);
+  // ── Collect changes ────────────────────────────────────────────────────────
+  const range = rangeArgs(from, to);
+  let stats: FileStat[];
+  try {
+    stats = parseNumstat(git(["diff", "--relative", ...range, "--numstat"]));
+  } catch {
+    return { ...result, status: "failed" };
+  }
+  const untracked = to.kind === "worktree" ? await untrackedStats() : [];
+  stats.push(...untracked.map((u) => u.stat));
+  if (stats.length === 0) return { ...result, status: "no-changes" };
 
-      const diffLines = fileDiff
-        .split("\n")
-        .filter((l: string) => (l.startsWith("+") || l.startsWith("-")) && !l.startsWith("+++") && !l.startsWith("---"))
-        .slice(0, 40);
+  stats.sort((a, b) => (b.additions + b.deletions) - (a.additions + a.deletions));
+  result.files = stats;
 
-      lines.push(...diffLines);
-      lines.push("");
-    } catch {
-      // skip if diff fails for a specific file
+  const untrackedText = new Map(untracked.map((u) => [u.stat.file, u.text]));
+  const topStats = top ? stats.slice(0, top) : stats;
+  const contexts = await fileContexts(stats.map((s) => s.file));
+
+  for (const s of topStats) {
+    let hunks: Hunk[];
+    let oldSource: string | null = null;
+    let newSource: string | null;
+    if (untrackedText.has(s.file)) {
+      newSource = untrackedText.get(s.file) ?? null;
+      hunks = newSource === null ? [] : [additionHunk(splitLines(newSource))];
+    } else {
+      try {
+        hunks = parseHunks(git(["diff", "--relative", "-U0", ...range, "--", s.file]));
+      } catch {
+        continue; // skip if diff fails for a specific file
+      }
+      oldSource = await sourceAt(from, s.file);
+      newSource = await sourceAt(to, s.file);
     }
+    if (hunks.length === 0) continue;
+
+    const excerpt: DiffExcerpt = {
+      file: s.file,
+      changes: summarizeChanges(s.file, hunks, oldSource, newSource),
+      lines: hunks.slice(0, hunkCount).flatMap((h) => [hunkHeaderLine(h), ...h.lines.slice(0, EXCERPT_LINES)]),
+    };
+    const context = contexts.get(s.file);
+    if (context) excerpt.context = context;
+    result.excerpts.push(excerpt);
   }
 
-  return lines.join("\n");
+  const resave = await resaveCommands(contexts);
+  if (resave.size > 0) result.resave = [...resave.values()];
+
+  if (budget === undefined) return result;
+
+  const command = [
+    "repoctx diff",
+    ...(fromSpec !== undefined ? [`--from ${fromSpec}`] : []),
+    ...(mergeBase !== undefined ? [`--merge-base ${mergeBase}`] : []),
+    ...(toSpec !== undefined ? [`--to ${toSpec}`] : []),
+  ].join(" ");
+
+  // Files are already sorted by size, so the smallest files are dropped first.
+  // Each listed file heads its group: its re-index command, card notes and raw
+  // +/- lines are only kept along with it, in that order.
+  const shown = top ? result.files.slice(0, top) : result.files;
+  const items: BudgetItem[] = [
+    ...shown.map((s): BudgetItem => ({
+      id: `${s.file}#listed`,
+      group: s.file,
+      priority: 0,
+      head: true,
+      text: fileStatLine(s),
+      label: "changed files",
+      fetch: fetchCommand(from, to, s.file, untrackedText.has(s.file)),
+    })),
+    ...[...resave].map(([file, save]): BudgetItem => ({
+      id: `${file}#resave`,
+      group: file,
+      priority: 0,
+      text: `  ${save}`,
+      label: "re-index commands",
+      fetch: command,
+    })),
+    ...result.excerpts.flatMap((e): BudgetItem[] => [
+      {
+        id: `${e.file}#summary`,
+        group: e.file,
+        priority: 1,
+        text: excerptTextLines({ ...e, lines: [] }).join("\n"),
+        label: "file summaries",
+        fetch: fetchCommand(from, to, e.file, untrackedText.has(e.file)),
+      },
+      ...(e.lines.length > 0
+        ? [{
+          id: e.file,
+          group: e.file,
+          priority: 2,
+          text: e.lines.join("\n"),
+          label: "raw hunks",
+          fetch: fetchCommand(from, to, e.file, untrackedText.has(e.file)),
+        }]
+        : []),
+    ]),
+  ];
+  const { kept, omission } = fitToBudget(items, {
+    budget,
+    ...(estimator !== undefined && { estimator }),
+    fixed: [
+      ...diffHeaderLines({ ...result, files: [] }),
+      `Files changed (${shown.length}):`, "", "---", "",
+      ...(resave.size > 0 ? [`Re-index (${resave.size}):`] : []),
+    ].join("\n"),
+    rerun: (b) => `${command}${top ? ` --top ${top}` : ""}${hunkCount ? ` --hunks ${hunkCount}` : ""} --budget ${b}`,
+  });
+
+  if (shown.some((s) => !kept.has(`${s.file}#listed`))) {
+    // The footer counts the files left out; the list shows the rest without a --top tail
+    result.files = shown.filter((s) => kept.has(`${s.file}#listed`));
+    delete result.top;
+  }
+  const keptResave = [...resave].filter(([file]) => kept.has(`${file}#resave`)).map(([, save]) => save);
+  if (keptResave.length > 0) result.resave = keptResave;
+  else delete result.resave;
+  result.excerpts = result.excerpts
+    .filter((e) => kept.has(e.file) || kept.has(`${e.file}#summary`))
+    .map((e) => {
+      const trimmed: DiffExcerpt = { ...e, lines: kept.has(e.file) ? e.lines : [] };
+      if (!kept.has(`${e.file}#summary`)) {
+        trimmed.changes = [];
+        delete trimmed.context;
+      }
+      return trimmed;
+    });
+  if (omission) result.omission = omission;
+  return result;
 }
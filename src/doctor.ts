@@ -0,0 +1,295 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  STORE_VERSION,
+  storeLayout,
+  saveIndex,
+  withStoreLock,
+  type RepoctxFileCache,
+  type RepoctxIndex,
+  type SymbolCard,
+  type SymbolsIndex,
+} from "./cache.js";
+import { writeFileAtomic } from "./lock.js";
+import { normalizeKeyword } from "./query.js";
+import { rebuildSearchIndex } from "./search.js";
+import { migrateStore } from "./migrate.js";
+
+// ── repoctx doctor ────────────────────────────────────────────────────────────
+// Card files are the source of truth for what a card says; index.json and
+// symbols-index.json for which cards exist. Everything else (keyword index,
+// hashes in index.json, search index) is derived and --fix rebuilds it. Files
+// --fix takes out of the store go to .repoctx/quarantine/, never straight to
+// the bin.
+
+export type DoctorIssueKind =
+  | "format"               // store written in an older format
+  | "unparseable"          // JSON that doesn't parse
+  | "missing-ref"          // index entry pointing at a card file that isn't there
+  | "orphaned-ref"         // card file no index entry points at
+  | "hash-mismatch"        // index.json hash differs from the card's
+  | "key-mismatch"         // card's own path/symbol differs from its index key
+  | "unknown-keyword-path" // keyword index entry for a path without a card
+  | "missing-keyword"      // card keyword missing from the keyword index
+  | "torn-history";        // unreadable lines in a card history
+
+export type DoctorIssue = {
+  kind: DoctorIssueKind;
+  file: string;   // relative to .repoctx/
+  detail: string;
+};
+
+export type DoctorReport = {
+  version: number | null; // store format on disk; null if index.json is missing or unreadable
+  issues: DoctorIssue[];
+  fixed: string[];        // with --fix: what was done
+};
+
+type Parsed<T> = { value: T } | { error: string } | null; // null = file doesn't exist
+
+async function readJson<T>(file: string): Promise<Parsed<T>> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch {
+    return null;
+  }
+  try {
+    const value = JSON.parse(raw);
+    if (typeof value !== "object" || value === null) return { error: "not a JSON object" };
+    return { value };
+  } catch (e) {
+    return { error: raw.trim() === "" ? "empty file" : (e as Error).message };
+  }
+}
+
+async function listJson(dir: string, ext = ".json"): Promise<string[]> {
+  try {
+    return (await fs.readdir(dir)).filter((f) => f.endsWith(ext)).sort();
+  } catch {
+    return [];
+  }
+}
+
+function storeRel(file: string): string {
+  return path.relative(storeLayout().dir, file).replaceAll("\\", "/");
+}
+
+async function quarantine(file: string) {
+  const dest = path.join(storeLayout().dir, "quarantine", storeRel(file));
+  await fs.mkdir(path.dirname(dest), { recursive: true });
+  await fs.rename(file, dest);
+}
+
+/** Card files of one kind, parsed; unparseable ones are reported */
+async function loadCardFiles<T>(dir: string, issues: DoctorIssue[]): Promise<Map<string, T | null>> {
+  const cards = new Map<string, T | null>();
+  for (const ref of await listJson(dir)) {
+    const parsed = await readJson<T>(path.join(dir, ref));
+    if (parsed && "value" in parsed) {
+      cards.set(ref, parsed.value);
+    } else {
+      cards.set(ref, null);
+      issues.push({ kind: "unparseable", file: storeRel(path.join(dir, ref)), detail: parsed?.error ?? "unreadable" });
+    }
+  }
+  return cards;
+}
+
+/** Newest card per key, for rebuilding an index that couldn't be read */
+function newestPerKey<T extends { updatedAt: string }>(cards: Map<string, T | null>, key: (c: T) => string): Map<string, string> {
+  const best = new Map<string, { ref: string; at: string }>();
+  for (const [ref, card] of cards) {
+    if (!card) continue;
+    const prev = best.get(key(card));
+    if (!prev || card.updatedAt > prev.at) best.set(key(card), { ref, at: card.updatedAt });
+  }
+  return new Map([...best].map(([k, v]) => [k, v.ref]));
+}
+
+export async function runDoctor({ fix = false }: { fix?: boolean } = {}): Promise<DoctorReport> {
+  // Read-only runs don't lock, so they work even while another process holds the store
+  return fix ? withStoreLock(() => diagnose(true)) : diagnose(false);
+}
+
+async function diagnose(fix: boolean): Promise<DoctorReport> {
+  const layout = storeLayout();
+  const issues: DoctorIssue[] = [];
+  const fixed: string[] = [];
+
+  // ── Module cards ───────────────────────────────────────────────────────────
+  const indexParsed = await readJson<RepoctxIndex>(layout.index);
+  if (indexParsed && "error" in indexParsed) {
+    issues.push({ kind: "unparseable", file: "index.json", detail: indexParsed.error });
+  }
+  const index = indexParsed && "value" in indexParsed ? indexParsed.value : null;
+  const version = index ? (typeof index.version === "number" ? index.version : 1) : null;
+  if (version !== null && version < STORE_VERSION) {
+    issues.push({ kind: "format", file: "index.json", detail: `format ${version}, current is ${STORE_VERSION}` });
+  }
+
+  const cards = await loadCardFiles<RepoctxFileCache>(layout.files, issues);
+  const fileEntries = index?.files ?? {};
+  const referenced = new Set<string>();
+
+  for (const [key, entry] of Object.entries(fileEntries)) {
+    referenced.add(entry.ref);
+    const card = cards.get(entry.ref);
+    if (card === undefined) {
+      issues.push({ kind: "missing-ref", file: `files/${entry.ref}`, detail: `index.json entry for ${key} points at a missing card file` });
+      continue;
+    }
+    if (card === null) continue; // reported as unparseable
+    if (card.path !== key) {
+      issues.push({ kind: "key-mismatch", file: `files/${entry.ref}`, detail: `card says ${card.path}, index.json has it as ${key}` });
+    }
+    if (card.hash !== entry.hash) {
+      issues.push({ kind: "hash-mismatch", file: `files/${entry.ref}`, detail: `${key}: index.json has ${entry.hash.slice(0, 12)}, card has ${card.hash.slice(0, 12)}` });
+    }
+  }
+  if (index) {
+    for (const [ref, card] of cards) {
+      if (card && !referenced.has(ref)) {
+        issues.push({ kind: "orphaned-ref", file: `files/${ref}`, detail: `card for ${card.path}, not in index.json` });
+      }
+    }
+
+    const keywordIndex = index.keywordIndex ?? {};
+    for (const [kw, paths] of Object.entries(keywordIndex)) {
+      for (const p of paths) {
+        if (!fileEntries[p]) issues.push({ kind: "unknown-keyword-path", file: "index.json", detail: `keyword "${kw}" lists ${p}, which has no card` });
+      }
+    }
+    for (const [key, entry] of Object.entries(fileEntries)) {
+      for (const kw of (cards.get(entry.ref)?.keywords ?? []).map(normalizeKeyword)) {
+        if (!keywordIndex[kw]?.includes(key)) {
+          issues.push({ kind: "missing-keyword", file: "index.json", detail: `${key} is tagged "${kw}" but the keyword index doesn't list it` });
+        }
+      }
+    }
+  }
+
+  // ── Symbol cards ───────────────────────────────────────────────────────────
+  const symbolsParsed = await readJson<SymbolsIndex>(layout.symbolsIndex);
+  if (symbolsParsed && "error" in symbolsParsed) {
+    issues.push({ kind: "unparseable", file: "symbols-index.json", detail: symbolsParsed.error });
+  }
+  const symbolsIndex = symbolsParsed && "value" in symbolsParsed ? symbolsParsed.value : null;
+  const symbolCards = await loadCardFiles<SymbolCard>(layout.symbols, issues);
+  const symbolRefs = new Set(Object.values(symbolsIndex?.symbols ?? {}));
+
+  for (const [name, ref] of Object.entries(symbolsIndex?.symbols ?? {})) {
+    const card = symbolCards.get(ref);
+    if (card === undefined) {
+      issues.push({ kind: "missing-ref", file: `symbols/${ref}`, detail: `symbols-index.json entry for ${name} points at a missing card file` });
+    } else if (card && card.symbol !== name) {
+      issues.push({ kind: "key-mismatch", file: `symbols/${ref}`, detail: `card says ${card.symbol}, symbols-index.json has it as ${name}` });
+    }
+  }
+  if (symbolsIndex) {
+    for (const [ref, card] of symbolCards) {
+      if (card && !symbolRefs.has(ref)) {
+        issues.push({ kind: "orphaned-ref", file: `symbols/${ref}`, detail: `card for ${card.symbol}, not in symbols-index.json` });
+      }
+    }
+  }
+
+  // ── Everything else ────────────────────────────────────────────────────────
+  const others = [layout.searchIndex, layout.statCache, path.join(layout.dir, "state.json")];
+  for (const file of others) {
+    const parsed = await readJson(file);
+    if (parsed && "error" in parsed) issues.push({ kind: "unparseable", file: storeRel(file), detail: parsed.error });
+  }
+
+  const torn = new Map<string, string[]>(); // history file → its readable lines
+  for (const name of await listJson(layout.history, ".jsonl")) {
+    const file = path.join(layout.history, name);
+    const lines = (await fs.readFile(file, "utf8")).split("\n").filter((l) => l.trim());
+    const good = lines.filter((l) => {
+      try {
+        JSON.parse(l);
+        return true;
+      } catch {
+        return false;
+      }
+    });
+    if (good.length < lines.length) {
+      torn.set(file, good);
+      issues.push({ kind: "torn-history", file: storeRel(file), detail: `${lines.length - good.length} unreadable line(s)` });
+    }
+  }
+
+  if (!fix || issues.length === 0) return { version, issues, fixed };
+
+  // ── --fix ──────────────────────────────────────────────────────────────────
+  // Module cards: keep the index's membership when it's readable, else adopt every card
+  const keep = index
+    ? new Map(Object.entries(fileEntries).filter(([, e]) => cards.get(e.ref)).map(([key, e]) => [key, e.ref]))
+    : newestPerKey(cards, (c) => c.path);
+  const rebuilt: RepoctxIndex = {
+    version: version ?? 1, // migrations below bring it up to date
+    ...(index?.metaVersion !== undefined && { metaVersion: index.metaVersion }),
+    files: {},
+    keywordIndex: {},
+  };
+  for (const [key, ref] of keep) {
+    const card = cards.get(ref)!;
+    if (card.path !== key) {
+      await writeFileAtomic(path.join(layout.files, ref), JSON.stringify({ ...card, path: key }, null, 2));
+      fixed.push(`Set the path in files/${ref} to ${key}`);
+    }
+    rebuilt.files[key] = { hash: card.hash, ref };
+    for (const kw of new Set((card.keywords ?? []).map(normalizeKeyword))) {
+      (rebuilt.keywordIndex[kw] ??= []).push(key);
+    }
+  }
+  const keptRefs = new Set(keep.values());
+  for (const ref of cards.keys()) {
+    if (keptRefs.has(ref)) continue;
+    await quarantine(path.join(layout.files, ref));
+    fixed.push(`Moved files/${ref} to quarantine/`);
+  }
+  if (indexParsed && "error" in indexParsed) {
+    await quarantine(layout.index);
+    fixed.push("Moved the unreadable index.json to quarantine/");
+  }
+  await saveIndex(rebuilt);
+  fixed.push(`Rebuilt index.json (${keep.size} module cards)`);
+
+  // Symbol cards, the same way
+  const keepSymbols = symbolsIndex
+    ? new Map(Object.entries(symbolsIndex.symbols).filter(([name, ref]) => symbolCards.get(ref)?.symbol === name))
+    : newestPerKey(symbolCards, (c) => c.symbol);
+  const keptSymbolRefs = new Set(keepSymbols.values());
+  for (const ref of symbolCards.keys()) {
+    if (keptSymbolRefs.has(ref)) continue;
+    await quarantine(path.join(layout.symbols, ref));
+    fixed.push(`Moved symbols/${ref} to quarantine/`);
+  }
+  if (symbolsParsed && "error" in symbolsParsed) {
+    await quarantine(layout.symbolsIndex);
+    fixed.push("Moved the unreadable symbols-index.json to quarantine/");
+  }
+  const rebuiltSymbols: SymbolsIndex = { version: 1, symbols: Object.fromEntries(keepSymbols) };
+  await writeFileAtomic(layout.symbolsIndex, JSON.stringify(rebuiltSymbols, null, 2));
+  fixed.push(`Rebuilt symbols-index.json (${keepSymbols.size} symbol cards)`);
+
+  for (const [file, good] of torn) {
+    await writeFileAtomic(file, good.map((l) => l + "\n").join(""));
+    fixed.push(`Dropped unreadable lines from ${storeRel(file)}`);
+  }
+  for (const file of others) {
+    const parsed = await readJson(file);
+    if (!parsed || !("error" in parsed)) continue;
+    await quarantine(file);
+    fixed.push(`Moved the unreadable ${storeRel(file)} to quarantine/`);
+  }
+
+  await rebuildSearchIndex();
+  fixed.push("Rebuilt search-index.json");
+
+  const migrated = await migrateStore();
+  if (migrated) fixed.push(`Upgraded the store from format ${migrated.from} to ${migrated.to} (backup in .repoctx/${migrated.backup})`);
+
+  return { version, issues, fixed };
+}
@@ -0,0 +1,219 @@
+import path from "node:path";
+import ts from "typescript";
+import type { ExportEntry } from "./cache.js";
+import type { DeclarationRange } from "./languages.js";
+
+// ── Export extraction (TS/JS via the TypeScript compiler API) ────────────────
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ".ts": ts.ScriptKind.TS,
+  ".mts": ts.ScriptKind.TS,
+  ".cts": ts.ScriptKind.TS,
+  ".tsx": ts.ScriptKind.TSX,
+  ".js": ts.ScriptKind.JS,
+  ".mjs": ts.ScriptKind.JS,
+  ".cjs": ts.ScriptKind.JS,
+  ".jsx": ts.ScriptKind.JSX,
+};
+
+export const TS_EXTENSIONS = Object.keys(SCRIPT_KINDS);
+
+export function scriptKindOf(fileName: string): ts.ScriptKind {
+  return SCRIPT_KINDS[path.extname(fileName).toLowerCase()] ?? ts.ScriptKind.TS;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some((m) => m.kind === kind);
+}
+
+function kindOfExpression(expr: ts.Expression | undefined): ExportEntry["kind"] {
+  if (!expr) return "constant";
+  while (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isSatisfiesExpression(expr)) {
+    expr = expr.expression;
+  }
+  if (ts.isArrowFunction(expr) || ts.isFunctionExpression(expr)) return "function";
+  if (ts.isClassExpression(expr)) return "class";
+  // Factory calls like `makeDal(models)` are common; we can't know what they return
+  if (ts.isCallExpression(expr)) return "other";
+  return "constant";
+}
+
+function kindOfDeclaration(node: ts.Node): ExportEntry["kind"] | null {
+  if (ts.isFunctionDeclaration(node)) return "function";
+  if (ts.isClassDeclaration(node)) return "class";
+  if (ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node)) return "type";
+  if (ts.isEnumDeclaration(node)) return "enum";
+  if (ts.isModuleDeclaration(node)) return "namespace";
+  return null;
+}
+
+/** Top-level declarations by name, used to resolve `export { a, b }` lists */
+function collectLocals(sf: ts.SourceFile): Map<string, ExportEntry["kind"]> {
+  const locals = new Map<string, ExportEntry["kind"]>();
+  for (const stmt of sf.statements) {
+    if (ts.isVariableStatement(stmt)) {
+      for (const d of stmt.declarationList.declarations) {
+        if (ts.isIdentifier(d.name)) locals.set(d.name.text, kindOfExpression(d.initializer));
+      }
+      continue;
+    }
+    const kind = kindOfDeclaration(stmt);
+    const name = (stmt as ts.DeclarationStatement).name;
+    if (kind && name && ts.isIdentifier(name)) locals.set(name.text, kind);
+  }
+  return locals;
+}
+
+/** `module.exports.x`, `exports.x` → "x"; `module.exports` → "" */
+function commonJsTarget(expr: ts.Expression): string | null {
+  if (!ts.isPropertyAccessExpression(expr)) return null;
+  const obj = expr.expression;
+  if (ts.isIdentifier(obj) && obj.text === "module" && expr.name.text === "exports") return "";
+  if (ts.isIdentifier(obj) && obj.text === "exports") return expr.name.text;
+  if (commonJsTarget(obj) === "") return expr.name.text;
+  return null;
+}
+
+/**
+ * `starExports` resolves `export * from "<spec>"` to the target's exports;
+ * without it (or when it can't resolve the module) star re-exports are left
+ * out rather than recorded under a made-up name.
+ */
+export function extractTsExports(
+  source: string,
+  fileName: string,
+  starExports?: (spec: string) => ExportEntry[]
+): ExportEntry[] {
+  const sf = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, false, scriptKindOf(fileName));
+  const locals = collectLocals(sf);
+  const found = new Map<string, ExportEntry["kind"]>();
+  const add = (name: string, kind: ExportEntry["kind"]) => {
+    if (!found.has(name)) found.set(name, kind);
+  };
+  const starSpecs: string[] = [];
+
+  for (const stmt of sf.statements) {
+    const exported = hasModifier(stmt, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(stmt, ts.SyntaxKind.DefaultKeyword);
+
+    if (exported && ts.isVariableStatement(stmt)) {
+      for (const d of stmt.declarationList.declarations) {
+        if (ts.isIdentifier(d.name)) {
+          add(d.name.text, kindOfExpression(d.initializer));
+        } else {
+          // Destructured export: `export const { a, b } = obj`
+          for (const el of d.name.elements) {
+            if (ts.isBindingElement(el) && ts.isIdentifier(el.name)) add(el.name.text, "constant");
+          }
+        }
+      }
+      continue;
+    }
+
+    const declKind = kindOfDeclaration(stmt);
+    if (exported && declKind) {
+      const name = (stmt as ts.DeclarationStatement).name;
+      if (isDefault) add("default", declKind);
+      else if (name && ts.isIdentifier(name)) add(name.text, declKind);
+      continue;
+    }
+
+    if (ts.isExportDeclaration(stmt)) {
+      const fromModule = stmt.moduleSpecifier && ts.isStringLiteral(stmt.moduleSpecifier)
+        ? stmt.moduleSpecifier.text
+        : undefined;
+      const clause = stmt.exportClause;
+      if (!clause) {
+        if (fromModule) starSpecs.push(fromModule);
+      } else if (ts.isNamespaceExport(clause)) {
+        add(clause.name.text, "namespace");
+      } else {
+        for (const el of clause.elements) {
+          const localName = (el.propertyName ?? el.name).text;
+          const kind = stmt.isTypeOnly || el.isTypeOnly
+            ? "type"
+            : fromModule ? "other" : locals.get(localName) ?? "other";
+          add(el.name.text, kind);
+        }
+      }
+      continue;
+    }
+
+    if (ts.isExportAssignment(stmt)) {
+      const expr = stmt.expression;
+      const kind = ts.isIdentifier(expr) ? locals.get(expr.text) ?? "other" : kindOfExpression(expr);
+      add("default", kind);
+      continue;
+    }
+
+    // CommonJS: module.exports = { a, b } / module.exports.a = ... / exports.a = ...
+    if (ts.isExpressionStatement(stmt) && ts.isBinaryExpression(stmt.expression)
+      && stmt.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const { left, right } = stmt.expression;
+      const target = commonJsTarget(left);
+      if (target === null) continue;
+      if (target !== "") {
+        add(target, ts.isIdentifier(right) ? locals.get(right.text) ?? "other" : kindOfExpression(right));
+      } else if (ts.isObjectLiteralExpression(right)) {
+        for (const prop of right.properties) {
+          if (ts.isShorthandPropertyAssignment(prop)) {
+            add(prop.name.text, locals.get(prop.name.text) ?? "other");
+          } else if (ts.isPropertyAssignment(prop) && (ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name))) {
+            const init = prop.initializer;
+            add(prop.name.text, ts.isIdentifier(init) ? locals.get(init.text) ?? "other" : kindOfExpression(init));
+          } else if (ts.isMethodDeclaration(prop) && ts.isIdentifier(prop.name)) {
+            add(prop.name.text, "function");
+          }
+        }
+      } else {
+        add("default", ts.isIdentifier(right) ? locals.get(right.text) ?? "other" : kindOfExpression(right));
+      }
+    }
+  }
+
+  // After the loop: the module's own exports shadow star re-exported names, and `default` never comes through a star
+  for (const spec of starSpecs) {
+    for (const e of starExports?.(spec) ?? []) if (e.name !== "default") add(e.name, e.kind);
+  }
+
+  return [...found].map(([name, kind]) => ({ name, kind }));
+}
+
+// ── Declaration ranges (for symbol-level diffs) ──────────────────────────────
+
+/** Top-level declarations and class members with the lines they span, exported or not */
+export function tsDeclarationRanges(source: string, fileName: string): DeclarationRange[] {
+  const sf = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, scriptKindOf(fileName));
+  const line = (pos: number) => sf.getLineAndCharacterOfPosition(pos).line + 1;
+  const ranges: DeclarationRange[] = [];
+  const add = (name: string, kind: ExportEntry["kind"], node: ts.Node) => {
+    ranges.push({ name, kind, startLine: line(node.getStart(sf, true)), endLine: line(node.getEnd()) });
+  };
+
+  for (const stmt of sf.statements) {
+    if (ts.isVariableStatement(stmt)) {
+      const single = stmt.declarationList.declarations.length === 1;
+      for (const d of stmt.declarationList.declarations) {
+        if (ts.isIdentifier(d.name)) add(d.name.text, kindOfExpression(d.initializer), single ? stmt : d);
+      }
+      continue;
+    }
+    const kind = kindOfDeclaration(stmt);
+    const name = (stmt as ts.DeclarationStatement).name;
+    if (!kind) continue;
+    const declName = name && ts.isIdentifier(name) ? name.text : "default";
+    add(declName, kind, stmt);
+
+    if (ts.isClassDeclaration(stmt)) {
+      for (const m of stmt.members) {
+        if (m.name && (ts.isIdentifier(m.name) || ts.isPrivateIdentifier(m.name) || ts.isStringLiteral(m.name))) {
+          const memberKind = ts.isPropertyDeclaration(m) ? "constant" : "function";
+          add(`${declName}.${m.name.text}`, memberKind, m);
+        } else if (ts.isConstructorDeclaration(m)) {
+          add(`${declName}.constructor`, "function", m);
+        }
+      }
+    }
+  }
+  return ranges;
+}
@@ -1,143 +1,453 @@
 import path from "node:path";
 import {
   loadIndex,
-  loadFileCache,
-  fileHash,
+  loadFileCaches,
+  cachedFileHash,
+  flushStatCache,
+  hashStats,
+  mapConcurrent,
   loadAllSymbols,
-  lookupByKeywords,
+  lookupByKeywordQuery,
+  computeExportSurfaceHash,
+  toRepoPath,
+  fromRepoPath,
+  normalizeRepoPath,
+  withRepoRoot,
+  type ExportEntry,
+  type RepoctxFileCache,
+  type SymbolCard,
 } from "./cache.js";
+import { extractExportsFromFile } from "./languages.js";
+import type { Move } from "./moves.js";
+import { walkSymbolGraph, type SymbolNeighbor } from "./graph.js";
+import { buildModuleGraph, importEdgesOf, type ModuleGraph } from "./imports.js";
+import { fitToBudget, type BudgetItem, type BudgetOmission, type TokenEstimator } from "./budget.js";
+import { moduleTextParts, symbolTextLines } from "./render.js";
+import { parseKeywordQuery, matchesKeywordQuery, normalizeKeyword, type KeywordQuery } from "./query.js";
+import { listWorkspaces, findWorkspace, workspaceRoot } from "./workspaces.js";
+import type { Timings } from "./timing.js";
 
-export async function getContext({
-  filterPath,
-  keywords,
-  symbol,
-}: {
-  filterPath?: string;
-  keywords?: string[];
-  symbol?: string;
-} = {}) {
-  const lines: string[] = [];
+// ── Contract detection ────────────────────────────────────────────────────────
 
-  // ── Symbol lookup ──────────────────────────────────────────────────────────
-  if (symbol) {
-    const allSymbols = await loadAllSymbols();
-    const match = allSymbols.find(
-      (s) => s.symbol.toLowerCase() === symbol.toLowerCase()
-    );
-    if (!match) return `No symbol found: "${symbol}"`;
-
-    lines.push(`[symbol: ${match.symbol}]`);
-    lines.push(`Kind: ${match.kind}`);
-    lines.push(`File: ${match.file}`);
-    lines.push(`Purpose: ${match.purpose}`);
-    if (match.signature) lines.push(`Signature: ${match.signature}`);
-    if (match.related?.length) {
-      lines.push(`Related:`);
-      for (const r of match.related) lines.push(`  - ${r.symbol} (${r.relation})`);
-    }
-    if (match.keywords?.length) lines.push(`Keywords: ${match.keywords.join(", ")}`);
-    lines.push(`Updated: ${match.updatedAt}`);
-    return lines.join("\n");
+export type SurfaceDiff = {
+  added: string[];
+  removed: string[];
+  kindChanged: { name: string; from: ExportEntry["kind"]; to: ExportEntry["kind"] }[];
+};
+
+export type Freshness =
+  | { status: "fresh" }
+  | { status: "missing" }
+  | { status: "changed"; contractChanged: boolean; surface?: SurfaceDiff | undefined };
+
+export function diffSurface(before: ExportEntry[], after: ExportEntry[]): SurfaceDiff {
+  const prev = new Map(before.map((e) => [e.name, e.kind]));
+  const next = new Map(after.map((e) => [e.name, e.kind]));
+  const diff: SurfaceDiff = { added: [], removed: [], kindChanged: [] };
+  for (const [name, kind] of next) {
+    const old = prev.get(name);
+    if (old === undefined) diff.added.push(name);
+    // "other" means the kind was never known (manual --symbols), so it can't have changed
+    else if (old !== kind && old !== "other") diff.kindChanged.push({ name, from: old, to: kind });
   }
+  for (const name of prev.keys()) if (!next.has(name)) diff.removed.push(name);
+  return diff;
+}
 
-  // ── Determine which paths to show ─────────────────────────────────────────
-  let targetPaths: string[] | null = null; // null = show all
+/**
+ * Compare a card against the file on disk. When the content hash differs, the
+ * freshly extracted exports decide whether the public contract moved or only
+ * the implementation did. Unparseable files are conservatively treated as
+ * contract changes.
+ */
+export async function checkFreshness(cache: RepoctxFileCache): Promise<Freshness> {
+  const abs = fromRepoPath(cache.path);
+  let currentHash: string;
+  try {
+    currentHash = await cachedFileHash(abs);
+  } catch {
+    return { status: "missing" };
+  }
+  if (currentHash === cache.hash) return { status: "fresh" };
 
-  if (keywords && keywords.length > 0) {
-    // O(1) lookup via keyword index
-    targetPaths = await lookupByKeywords(keywords);
+  let current: ExportEntry[] | null;
+  try {
+    current = await extractExportsFromFile(abs);
+  } catch {
+    current = null;
   }
+  return compareCard(cache, currentHash, current);
+}
+
+/** Freshness of a card against some version of its file: the content hash and, if it parsed, its exports */
+export function compareCard(cache: RepoctxFileCache, currentHash: string, current: ExportEntry[] | null): Freshness {
+  if (currentHash === cache.hash) return { status: "fresh" };
+  if (!current) return { status: "changed", contractChanged: true };
+
+  // Cards saved before extraction existed only have names; compare those.
+  // Names given by hand were never extracted, so they can't go missing.
+  const manual = new Set(cache.manualExports);
+  const before = (cache.exports ?? cache.symbols.map((name): ExportEntry => ({ name, kind: "other" })))
+    .filter((e) => !manual.has(e.name));
+  const surface = diffSurface(before, current);
+  const namesDiffer = surface.added.length > 0 || surface.removed.length > 0 || surface.kindChanged.length > 0;
+  // The surface hash covers exactly what the parser found at save time, so it
+  // decides whenever the card has one
+  const contractChanged = cache.exports && cache.publicSurfaceHash
+    ? cache.publicSurfaceHash !== computeExportSurfaceHash(current)
+    : namesDiffer;
+
+  return { status: "changed", contractChanged, surface };
+}
+
+// ── Result shapes ─────────────────────────────────────────────────────────────
+// Read commands return these; render.ts turns them into text/markdown/xml/json.
+
+export type ModuleStatus = "fresh" | "meta" | "missing" | "contract-changed" | "implementation-changed" | "historical";
+
+/** A module card as shown by `get`. Optional groups may be dropped by --budget. */
+export type ModuleView = {
+  path: string;
+  status: ModuleStatus;
+  surface?: SurfaceDiff | undefined;
+  footguns?: string | undefined;
+  // summary group
+  summary?: string | undefined;
+  keywords?: string[] | undefined;
+  dependencies?: string[] | undefined;
+  delta?: string | undefined;
+  // symbol-list group
+  symbols?: string[] | undefined;
+  exports?: ExportEntry[] | undefined;
+  // import edges, only with --importers
+  imports?: string[] | undefined;
+  importers?: string[] | undefined;
+  source?: "scan" | undefined;
+  updatedAt: string;
+};
+
+export type ContextResult = {
+  type: "context";
+  modules: ModuleView[];
+  symbols: SymbolCard[];
+  omission?: BudgetOmission | undefined;
+};
+
+export type SymbolResult = {
+  type: "symbol";
+  query: string;
+  symbol: SymbolCard | null;
+  depth?: number | undefined;
+  neighbors?: SymbolNeighbor[] | undefined; // with --depth: related cards, both directions
+};
+
+/** A card as shown, with `status` taken as given */
+export function cardView(cache: RepoctxFileCache, status: ModuleStatus): ModuleView {
+  const view: ModuleView = {
+    path: cache.path,
+    status,
+    summary: cache.summary,
+    updatedAt: cache.updatedAt,
+  };
+  if (cache.symbols.length > 0) view.symbols = cache.symbols;
+  if (cache.exports?.length) view.exports = cache.exports;
+  if (cache.keywords?.length) view.keywords = cache.keywords;
+  if (cache.dependencies?.length) view.dependencies = cache.dependencies;
+  if (cache.footguns) view.footguns = cache.footguns;
+  if (cache.delta) view.delta = cache.delta;
+  if (cache.source) view.source = cache.source;
+  return view;
+}
+
+/** A card plus its freshness against the file on disk */
+export async function toModuleView(cache: RepoctxFileCache): Promise<ModuleView> {
+  const view = cardView(cache, "meta");
+  if (cache.hash !== "meta") {
+    const fresh = await checkFreshness(cache);
+    if (fresh.status === "fresh" || fresh.status === "missing") {
+      view.status = fresh.status;
+    } else {
+      view.status = fresh.contractChanged ? "contract-changed" : "implementation-changed";
+      if (fresh.contractChanged && fresh.surface) view.surface = fresh.surface;
+    }
+  }
+  return view;
+}
+
+// Hashing is mostly I/O; a few files in flight at once keeps the disk busy without a flood of open handles
+export const CHECK_CONCURRENCY = 16;
+
+function hashDetail() {
+  return `${hashStats.hashed} hashed, ${hashStats.cached} from stat cache`;
+}
+
+/** Module views and symbol cards of the current store, paths relative to its root */
+async function collectContext({
+  relFilter,
+  query,
+  importers,
+  timings,
+}: {
+  relFilter: string | undefined;
+  query: KeywordQuery | null;
+  importers: boolean | undefined;
+  timings: Timings | undefined;
+}): Promise<{ modules: ModuleView[]; symbols: SymbolCard[] }> {
+  // ── Determine which paths to show ─────────────────────────────────────────
+  const targetPaths = query ? await lookupByKeywordQuery(query) : null; // null = show all
 
   // ── Module cards ───────────────────────────────────────────────────────────
   const idx = await loadIndex();
+  timings?.mark("load index", `${Object.keys(idx.files).length} modules`);
 
-  const relFilter = filterPath
-    ? path.relative(process.cwd(), path.resolve(filterPath)).replaceAll("\\", "/")
-    : undefined;
+  const pathsToShow = (targetPaths ?? Object.keys(idx.files)).filter((rel) => {
+    if (!relFilter || relFilter === "" || relFilter === ".") return true;
+    return rel === relFilter || rel.startsWith(relFilter + "/");
+  });
 
-  const pathsToShow = targetPaths ?? Object.keys(idx.files);
+  const caches = await loadFileCaches(pathsToShow, idx);
+  timings?.mark("load cards", `${caches.length} cards`);
 
-  for (const rel of pathsToShow) {
-    if (relFilter) {
-      const isCwd = relFilter === "" || relFilter === ".";
-      const isExact = rel === relFilter;
-      const isUnder = rel.startsWith(relFilter + "/");
-      if (!isCwd && !isExact && !isUnder) continue;
+  const modules = await mapConcurrent(caches, CHECK_CONCURRENCY, toModuleView);
+  await flushStatCache();
+  timings?.mark("check freshness", hashDetail());
+
+  if (importers) {
+    let graph: ModuleGraph | undefined; // built once, only if a module needs it
+    for (const [i, cache] of caches.entries()) {
+      const view = modules[i]!;
+      if (cache.hash === "meta" || view.status === "missing") continue;
+      graph ??= await buildModuleGraph();
+      // For this view only: a read never rewrites cards (save and scan record edges)
+      Object.assign(view, await importEdgesOf(cache.path, graph));
     }
+    timings?.mark("import graph");
+  }
 
-    const cache = await loadFileCache(rel);
-    if (!cache) continue;
+  // ── Symbol cards ───────────────────────────────────────────────────────────
+  let symbols = await loadAllSymbols();
+  timings?.mark("load symbols", `${symbols.length} cards`);
+  if (query) {
+    symbols = symbols.filter((s) => {
+      const kws = new Set((s.keywords ?? []).map(normalizeKeyword));
+      return matchesKeywordQuery(query, (k) => kws.has(k));
+    });
+  }
+  return { modules, symbols };
+}
 
-    lines.push(`[${rel}]`);
-    lines.push(cache.summary);
-    if (cache.symbols.length > 0) lines.push(`Symbols: ${cache.symbols.join(", ")}`);
-    if (cache.exports?.length) {
-      lines.push(`Exports: ${cache.exports.map((e) => `${e.name}(${e.kind})`).join(", ")}`);
-    }
-    if (cache.keywords?.length) lines.push(`Keywords: ${cache.keywords.join(", ")}`);
-    if (cache.dependencies?.length) lines.push(`Deps: ${cache.dependencies.join(", ")}`);
-    if (cache.footguns) lines.push(`⚠ Footguns: ${cache.footguns}`);
-    if (cache.delta) lines.push(`Δ Last change: ${cache.delta}`);
-
-    if (cache.hash !== "meta") {
-      try {
-        const currentHash = await fileHash(path.resolve(rel));
-        if (currentHash !== cache.hash) {
-          lines.push("⚠ Context outdated (file changed since last save)");
-        }
-      } catch {
-        lines.push("⚠ File not found (may have been deleted or moved)");
-      }
-    }
+// ── Workspaces ────────────────────────────────────────────────────────────────
+
+/** Rebase a workspace store's paths onto the repo root */
+function prefixContext(dir: string, { modules, symbols }: { modules: ModuleView[]; symbols: SymbolCard[] }) {
+  const under = (p: string) => path.posix.join(dir, p);
+  return {
+    modules: modules.map((m) => ({
+      ...m,
+      path: under(m.path),
+      ...(m.imports && { imports: m.imports.map(under) }),
+      ...(m.importers && { importers: m.importers.map(under) }),
+    })),
+    symbols: symbols.map((s) => ({ ...s, file: under(normalizeRepoPath(s.file)) })),
+  };
+}
+
+/** The part of a root-relative filter inside `dir`: "" for all of it, null if the filter is elsewhere */
+function filterWithin(dir: string, relFilter: string | undefined): string | null {
+  if (!relFilter || relFilter === ".") return "";
+  if (relFilter === dir) return "";
+  if (relFilter.startsWith(dir + "/")) return relFilter.slice(dir.length + 1);
+  return null;
+}
 
-    lines.push("");
+/** Where the same module or symbol is carded twice (root and workspace store), the newer card wins */
+function newestBy<T extends { updatedAt: string }>(items: T[], key: (t: T) => string): T[] {
+  const byKey = new Map<string, T>();
+  for (const item of items) {
+    const prev = byKey.get(key(item));
+    if (!prev || item.updatedAt > prev.updatedAt) byKey.set(key(item), item);
   }
+  return [...byKey.values()];
+}
 
-  // ── Symbol cards ───────────────────────────────────────────────────────────
-  const allSymbols = await loadAllSymbols();
+/** Symbol cards of the root store plus every workspace store, paths relative to the root */
+async function loadSymbolsAcrossWorkspaces(): Promise<SymbolCard[]> {
+  const all = await loadAllSymbols();
+  for (const ws of (await listWorkspaces()).filter((w) => w.hasStore)) {
+    const own = await withRepoRoot(workspaceRoot(ws), loadAllSymbols);
+    all.push(...prefixContext(ws.dir, { modules: [], symbols: own }).symbols);
+  }
+  return newestBy(all, (s) => s.symbol.toLowerCase());
+}
 
-  let symbolsToShow = allSymbols;
-  if (keywords && keywords.length > 0) {
-    symbolsToShow = allSymbols.filter((s) =>
-      keywords.some((k) => s.keywords?.includes(k))
+export async function getContext({
+  filterPath,
+  keywordQuery,
+  symbol,
+  depth,
+  importers,
+  workspace,
+  budget,
+  estimator,
+  timings,
+}: {
+  filterPath?: string;
+  keywordQuery?: string; // e.g. "payments+dal", "(auth|session) -legacy" — see query.ts
+  symbol?: string;
+  depth?: number;        // with symbol: follow related cards this many hops
+  importers?: boolean;   // recompute and include import edges for each module
+  workspace?: string;    // only this workspace: its own store if it has one, else the root store under its directory
+  budget?: number;       // max tokens; output is ranked and trimmed to fit
+  estimator?: TokenEstimator;
+  timings?: Timings;     // --verbose
+} = {}): Promise<ContextResult | SymbolResult> {
+  // ── Symbol lookup ──────────────────────────────────────────────────────────
+  if (symbol) {
+    const allSymbols = await loadSymbolsAcrossWorkspaces();
+    const match = allSymbols.find(
+      (s) => s.symbol.toLowerCase() === symbol.toLowerCase()
     );
+    const result: SymbolResult = { type: "symbol", query: symbol, symbol: match ?? null };
+    if (match && depth && depth > 0) {
+      result.depth = depth;
+      result.neighbors = walkSymbolGraph(allSymbols, match.symbol, depth);
+    }
+    return result;
   }
 
-  if (symbolsToShow.length > 0 && !symbol) {
-    lines.push("── Symbols ──────────────────────────────────────────────");
-    for (const s of symbolsToShow) {
-      lines.push(`[symbol: ${s.symbol}] (${s.kind}) ${s.file}`);
-      lines.push(`  ${s.purpose}`);
-      if (s.signature) lines.push(`  Sig: ${s.signature}`);
-      if (s.related?.length) {
-        lines.push(`  Related: ${s.related.map((r) => `${r.symbol} (${r.relation})`).join(", ")}`);
-      }
-      lines.push("");
+  const query = keywordQuery?.trim() ? parseKeywordQuery(keywordQuery) : null;
+  const relFilter = filterPath ? toRepoPath(filterPath) : undefined;
+  const collect = (filter: string | undefined) => collectContext({ relFilter: filter, query, importers, timings });
+
+  let modules: ModuleView[];
+  let symbols: SymbolCard[];
+  if (workspace !== undefined) {
+    const ws = await findWorkspace(workspace);
+    const within = filterWithin(ws.dir, relFilter);
+    if (within === null) throw new Error(`${filterPath} is outside workspace ${ws.name} (${ws.dir})`);
+    if (ws.hasStore) {
+      ({ modules, symbols } = prefixContext(ws.dir, await withRepoRoot(workspaceRoot(ws), () => collect(within))));
+    } else {
+      ({ modules, symbols } = await collect(path.posix.join(ws.dir, within)));
+      symbols = symbols.filter((s) => filterWithin(ws.dir, normalizeRepoPath(s.file)) !== null);
+    }
+  } else {
+    ({ modules, symbols } = await collect(relFilter));
+    for (const ws of (await listWorkspaces()).filter((w) => w.hasStore)) {
+      const within = filterWithin(ws.dir, relFilter);
+      if (within === null) continue;
+      const own = prefixContext(ws.dir, await withRepoRoot(workspaceRoot(ws), () => collect(within)));
+      modules.push(...own.modules);
+      symbols.push(...own.symbols);
+    }
+    modules = newestBy(modules, (m) => m.path);
+    symbols = newestBy(symbols, (s) => s.symbol.toLowerCase());
+  }
+
+  const result: ContextResult = { type: "context", modules, symbols };
+  if (budget === undefined) return result;
+
+  // ── Budget ─────────────────────────────────────────────────────────────────
+  // Priorities: card paths (0), summaries (1), symbol lists and cards (2). A card's
+  // footgun and stale warnings are kept with its path even past the budget.
+  // Costs are estimated on the plain-text rendering.
+  const items: BudgetItem[] = [];
+  for (const m of modules) {
+    const parts = moduleTextParts(m);
+    const fetch = `repoctx get ${m.path}`;
+    items.push({
+      id: `${m.path}#head`,
+      group: m.path,
+      priority: 0,
+      head: true,
+      ...(parts.warnings.length > 0 && { required: true }),
+      text: [...parts.head, ...parts.warnings].join("\n"),
+      label: "cards",
+      fetch,
+    });
+    items.push({ id: `${m.path}#summary`, group: m.path, priority: 1, text: parts.summary.join("\n"), label: "summaries", fetch });
+    if (parts.symbols.length > 0) {
+      items.push({ id: `${m.path}#symbols`, group: m.path, priority: 2, text: parts.symbols.join("\n"), label: "symbol lists", fetch });
     }
   }
+  for (const s of symbols) {
+    const id = `symbol:${s.symbol}`;
+    items.push({ id, group: id, priority: 2, text: symbolTextLines(s).join("\n"), label: "symbol cards", fetch: `repoctx get --symbol ${s.symbol}` });
+  }
 
-  return lines.join("\n");
+  const { kept, omission } = fitToBudget(items, {
+    budget,
+    ...(estimator !== undefined && { estimator }),
+    rerun: (b) => [
+      "repoctx get",
+      ...(filterPath ? [filterPath] : []),
+      ...(keywordQuery ? [`--keyword "${keywordQuery}"`] : []),
+      ...(importers ? ["--importers"] : []),
+      ...(workspace !== undefined ? [`--workspace ${workspace}`] : []),
+      `--budget ${b}`,
+    ].join(" "),
+  });
+
+  result.modules = modules
+    .filter((m) => kept.has(`${m.path}#head`))
+    .map((m) => {
+      const trimmed: ModuleView = { ...m };
+      if (!kept.has(`${m.path}#summary`)) {
+        delete trimmed.summary;
+        delete trimmed.keywords;
+        delete trimmed.dependencies;
+        delete trimmed.delta;
+        delete trimmed.imports;
+        delete trimmed.importers;
+      }
+      if (!kept.has(`${m.path}#symbols`)) {
+        delete trimmed.symbols;
+        delete trimmed.exports;
+      }
+      return trimmed;
+    });
+  result.symbols = symbols.filter((s) => kept.has(`symbol:${s.symbol}`));
+  if (omission) result.omission = omission;
+  return result;
 }
 
 // ── Stale check ───────────────────────────────────────────────────────────────
 
-export async function getStale(): Promise<{ path: string; reason: string }[]> {
-  const idx = await loadIndex();
-  const stale: { path: string; reason: string }[] = [];
+export type StaleEntry = {
+  path: string;
+  reason: string;
+  contractChanged: boolean;
+  surface?: SurfaceDiff | undefined;
+};
 
-  for (const rel of Object.keys(idx.files)) {
-    const cache = await loadFileCache(rel);
-    if (!cache || cache.hash === "meta") continue;
+export type StaleResult = {
+  type: "stale";
+  contractOnly: boolean;
+  moves: Move[];       // cards relocated by --fix-moves before checking
+  entries: StaleEntry[];
+};
 
-    try {
-      const currentHash = await fileHash(path.resolve(rel));
-      if (currentHash !== cache.hash) {
-        stale.push({ path: rel, reason: "file content changed" });
-      }
-    } catch {
-      stale.push({ path: rel, reason: "file not found" });
+export async function getStale({
+  contractOnly = false,
+  timings,
+}: { contractOnly?: boolean; timings?: Timings } = {}): Promise<StaleEntry[]> {
+  const caches = (await loadFileCaches()).filter((c) => c.hash !== "meta");
+  timings?.mark("load cards", `${caches.length} cards`);
+
+  const checked = await mapConcurrent(caches, CHECK_CONCURRENCY, async (cache) => ({ cache, fresh: await checkFreshness(cache) }));
+  await flushStatCache();
+  timings?.mark("check freshness", hashDetail());
+
+  const stale: StaleEntry[] = [];
+  for (const { cache, fresh } of checked) {
+    if (fresh.status === "missing") {
+      stale.push({ path: cache.path, reason: "file not found — moved? try repoctx stale --fix-moves", contractChanged: true });
+    } else if (fresh.status === "changed") {
+      const entry: StaleEntry = { path: cache.path, reason: "file content changed", contractChanged: fresh.contractChanged };
+      if (fresh.surface) entry.surface = fresh.surface;
+      stale.push(entry);
     }
   }
 
-  return stale;
+  return contractOnly ? stale.filter((s) => s.contractChanged) : stale;
 }
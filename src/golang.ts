@@ -0,0 +1,285 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fromRepoPath, type ExportEntry } from "./cache.js";
+import type { DeclarationRange, LanguageAdapter, Usage } from "./languages.js";
+
+// ── Go ────────────────────────────────────────────────────────────────────────
+// Exported means capitalized. Like the Python adapter this reads lines rather
+// than parsing: comments are dropped, string contents blanked, and each line
+// records how many braces and parens are open where it starts, which is
+// enough to tell top-level declarations and grouped const/var/type entries.
+
+type Line = { code: string; depth: number };
+
+function scan(source: string): Line[] {
+  const lines: Line[] = [];
+  let depth = 0;
+  let inComment = false;
+  let inRaw = false;
+
+  for (const text of source.split("\n")) {
+    const start = depth;
+    let out = "";
+    for (let j = 0; j < text.length; j++) {
+      const c = text[j]!;
+      if (inComment) {
+        if (text.startsWith("*/", j)) {
+          inComment = false;
+          j++;
+        }
+        continue;
+      }
+      if (inRaw) {
+        if (c === "`") inRaw = false;
+        out += c === "`" ? c : " ";
+        continue;
+      }
+      if (text.startsWith("//", j)) break;
+      if (text.startsWith("/*", j)) {
+        inComment = true;
+        j++;
+        continue;
+      }
+      if (c === "`") {
+        inRaw = true;
+        out += c;
+        continue;
+      }
+      if (c === "\"" || c === "'") {
+        let k = j + 1;
+        while (k < text.length && text[k] !== c) k += text[k] === "\\" ? 2 : 1;
+        out += c + " ".repeat(Math.max(0, Math.min(k, text.length) - j - 1)) + c;
+        j = k;
+        continue;
+      }
+      if ("([{".includes(c)) depth++;
+      else if (")]}".includes(c)) depth = Math.max(0, depth - 1);
+      out += c;
+    }
+    lines.push({ code: out.trim(), depth: start });
+  }
+  return lines;
+}
+
+// ── Declarations ──────────────────────────────────────────────────────────────
+
+const FUNC = /^func\s+(?:\(\s*(?:\w+\s+)?\*?\s*(\w+)(?:\[[^\]]*\])?\s*\)\s*)?(\w+)/;
+const TYPE = /^(\w+)(?:\[[^\]]*\])?\s*=?\s*(struct|interface)?\b/;
+const VALUE = /^(\w+(?:\s*,\s*\w+)*)(.*)$/;
+const GROUP = /^(const|var|type)\s*\($/;
+
+type Declaration = DeclarationRange & { line: number }; // line: 0-based index of the line that names it
+
+function typeKind(shape: string | undefined): ExportEntry["kind"] {
+  return shape === "struct" ? "class" : "type";
+}
+
+/** `= func(...)` is a function, `= pkg.New(...)` a factory call we can't type, anything else a constant */
+function valueKind(rest: string): ExportEntry["kind"] {
+  const value = /=\s*(.*)$/.exec(rest)?.[1] ?? "";
+  if (/^func\s*\(/.test(value)) return "function";
+  if (/^[A-Za-z_][\w.]*(?:\[[^\]]*\])?\s*\(/.test(value)) return "other";
+  return "constant";
+}
+
+/** Every top-level declaration, methods as `Type.Method` and grouped entries one by one */
+function declarations(source: string): Declaration[] {
+  const raw = source.split("\n");
+  const lines = scan(source);
+  const decls: Declaration[] = [];
+
+  /** Up to the line before the next line at this depth, blank and comment-only lines trimmed */
+  const endOf = (i: number, depth: number) => {
+    let end = i + 1;
+    while (end < lines.length && !(lines[end]!.depth <= depth && lines[end]!.code)) end++;
+    end--;
+    while (end > i && !lines[end]!.code) end--;
+    return end;
+  };
+  /** Doc comment lines directly above are part of the declaration */
+  const startOf = (i: number) => {
+    let start = i;
+    while (start > 0 && !lines[start - 1]!.code && raw[start - 1]!.trim().startsWith("//")) start--;
+    return start;
+  };
+  const add = (i: number, end: number, name: string, kind: ExportEntry["kind"]) => {
+    decls.push({ name, kind, line: i, startLine: startOf(i) + 1, endLine: end + 1 });
+  };
+
+  let group: string | null = null;
+  lines.forEach(({ code, depth }, i) => {
+    if (depth === 0) {
+      group = GROUP.exec(code)?.[1] ?? null;
+      if (group) return;
+      const fn = FUNC.exec(code);
+      if (fn) {
+        add(i, endOf(i, 0), fn[1] ? `${fn[1]}.${fn[2]}` : fn[2]!, "function");
+        return;
+      }
+      const decl = /^(const|var|type)\s+(.*)$/.exec(code);
+      if (!decl) return;
+      if (decl[1] === "type") {
+        const t = TYPE.exec(decl[2]!);
+        if (t) add(i, endOf(i, 0), t[1]!, typeKind(t[2]));
+      } else {
+        const v = VALUE.exec(decl[2]!);
+        for (const name of v?.[1]!.split(",") ?? []) add(i, endOf(i, 0), name.trim(), valueKind(v![2]!));
+      }
+    } else if (depth === 1 && group && code && !code.startsWith(")")) {
+      if (group === "type") {
+        const t = TYPE.exec(code);
+        if (t) add(i, endOf(i, 1), t[1]!, typeKind(t[2]));
+      } else {
+        const v = VALUE.exec(code);
+        for (const name of v?.[1]!.split(",") ?? []) add(i, endOf(i, 1), name.trim(), valueKind(v![2]!));
+      }
+    }
+  });
+  return decls;
+}
+
+const isExported = (name: string) => name.split(".").every((part) => /^[A-Z]/.test(part));
+
+function extractExports(source: string): ExportEntry[] {
+  const found = new Map<string, ExportEntry["kind"]>();
+  for (const d of declarations(source)) {
+    if (isExported(d.name) && !found.has(d.name)) found.set(d.name, d.kind);
+  }
+  return [...found].map(([name, kind]) => ({ name, kind }));
+}
+
+function declarationRanges(source: string): DeclarationRange[] {
+  return declarations(source).map(({ name, kind, startLine, endLine }) => ({ name, kind, startLine, endLine }));
+}
+
+// ── Imports ───────────────────────────────────────────────────────────────────
+
+/** Import paths, from both `import "x"` and `import ( ... )` forms */
+function importPaths(source: string): string[] {
+  const specs: string[] = [];
+  let inGroup = false;
+  for (const line of source.split("\n")) {
+    const t = line.replace(/\/\/.*$/, "").trim();
+    if (inGroup) {
+      if (t.startsWith(")")) inGroup = false;
+      else specs.push(...[...t.matchAll(/"([^"]+)"/g)].map((m) => m[1]!));
+      continue;
+    }
+    if (/^import\s*\($/.test(t)) {
+      inGroup = true;
+    } else if (/^import\b/.test(t)) {
+      specs.push(...[...t.matchAll(/"([^"]+)"/g)].map((m) => m[1]!));
+    } else if (/^(func|type|var|const)\b/.test(t)) {
+      break; // imports always come first
+    }
+  }
+  return specs;
+}
+
+type GoModule = {
+  dir: string;                       // repo-relative directory of go.mod
+  path: string;                      // module path
+  replaces: [string, string][];      // module path → repo-relative directory, for local `replace` directives
+};
+
+function readGoMod(dir: string): GoModule | null {
+  let text: string;
+  try {
+    text = fs.readFileSync(fromRepoPath(path.posix.join(dir, "go.mod")), "utf8");
+  } catch {
+    return null;
+  }
+  const modulePath = /^module\s+(\S+)/m.exec(text)?.[1];
+  if (!modulePath) return null;
+  const replaces: [string, string][] = [];
+  for (const m of text.matchAll(/^\s*(?:replace\s+)?(\S+)(?:\s+\S+)?\s+=>\s+(\.{1,2}\/\S*)\s*$/gm)) {
+    replaces.push([m[1]!, path.posix.join(dir, m[2]!)]);
+  }
+  return { dir, path: modulePath, replaces };
+}
+
+/** The go.mod governing a directory, looked up once per directory */
+function moduleFinder(): (dir: string) => GoModule | null {
+  const seen = new Map<string, GoModule | null>();
+  const find = (dir: string): GoModule | null => {
+    let mod = seen.get(dir);
+    if (mod === undefined) {
+      mod = readGoMod(dir) ?? (dir === "." || dir === "/" ? null : find(path.posix.dirname(dir)));
+      seen.set(dir, mod);
+    }
+    return mod;
+  };
+  return find;
+}
+
+/** The repo directory an import path points at, when it's in this module or a locally replaced one */
+function localDir(spec: string, mod: GoModule): string | null {
+  for (const [prefix, dir] of [[mod.path, mod.dir] as [string, string], ...mod.replaces]) {
+    if (spec === prefix) return dir;
+    if (spec.startsWith(prefix + "/")) return path.posix.join(dir, spec.slice(prefix.length + 1));
+  }
+  return null;
+}
+
+/** An import names a package, i.e. a directory: every non-test .go file in it */
+function packageFiles(dir: string): string[] {
+  try {
+    return fs.readdirSync(fromRepoPath(dir))
+      .filter((f) => f.endsWith(".go") && !f.endsWith("_test.go"))
+      .sort()
+      .map((f) => path.posix.join(dir, f));
+  } catch {
+    return [];
+  }
+}
+
+/** Non-local imports: `github.com/org/repo/sub` → `github.com/org/repo`; standard library paths as written */
+function packageImports(source: string, fileName: string): string[] {
+  const mod = moduleFinder()(path.posix.dirname(fileName));
+  const names = new Set<string>();
+  for (const spec of importPaths(source)) {
+    if (mod && localDir(spec, mod) !== null) continue;
+    const parts = spec.split("/");
+    names.add(parts[0]!.includes(".") ? parts.slice(0, 3).join("/") : spec);
+  }
+  return [...names].sort();
+}
+
+// ── Usages ────────────────────────────────────────────────────────────────────
+
+function findUsages(source: string, _fileName: string, name: string): Usage[] {
+  const own = new Set(declarations(source).filter((d) => d.name.split(".").pop() === name).map((d) => d.line));
+  const re = new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`);
+  const raw = source.split("\n");
+  const usages: Usage[] = [];
+  scan(source).forEach(({ code }, i) => {
+    if (!own.has(i) && re.test(code)) usages.push({ line: i + 1, text: raw[i]!.trim() });
+  });
+  return usages;
+}
+
+export const go: LanguageAdapter = {
+  name: "go",
+  extensions: [".go"],
+  extractExports,
+  declarationRanges,
+  packageImports,
+  createResolver() {
+    const findModule = moduleFinder();
+    const files = new Map<string, string[]>();
+    return (relPath, source) => {
+      const mod = findModule(path.posix.dirname(relPath));
+      if (!mod) return [];
+      const found: string[] = [];
+      for (const spec of importPaths(source)) {
+        const dir = localDir(spec, mod);
+        if (dir === null) continue;
+        if (!files.has(dir)) files.set(dir, packageFiles(dir));
+        found.push(...files.get(dir)!);
+      }
+      return found;
+    };
+  },
+  findUsages,
+  directoryScoped: true,
+};
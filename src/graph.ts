@@ -0,0 +1,116 @@
+import path from "node:path";
+import type { SymbolCard } from "./cache.js";
+import type { ModuleGraph } from "./imports.js";
+
+// ── Graphs ────────────────────────────────────────────────────────────────────
+
+export type GraphNode = {
+  id: string;
+  label: string;
+  group?: string | undefined;   // the file a symbol lives in, the directory of a module
+  missing?: boolean | undefined; // referenced but has no card
+};
+
+export type GraphEdge = {
+  from: string;
+  to: string;
+  label?: string | undefined;
+};
+
+export type Graph = {
+  type: "graph";
+  kind: "symbols" | "modules";
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+};
+
+/** `related` names are free text typed by agents; match them to cards case-insensitively */
+function cardLookup(cards: SymbolCard[]) {
+  const byName = new Map(cards.map((c) => [c.symbol.toLowerCase(), c]));
+  return (name: string) => byName.get(name.toLowerCase()) ?? null;
+}
+
+export function buildSymbolGraph(cards: SymbolCard[]): Graph {
+  const find = cardLookup(cards);
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  for (const c of cards) nodes.set(c.symbol, { id: c.symbol, label: c.symbol, group: c.file });
+  for (const c of cards) {
+    for (const r of c.related ?? []) {
+      const target = find(r.symbol)?.symbol ?? r.symbol;
+      if (!nodes.has(target)) nodes.set(target, { id: target, label: target, missing: true });
+      edges.push({ from: c.symbol, to: target, label: r.relation });
+    }
+  }
+  return { type: "graph", kind: "symbols", nodes: [...nodes.values()], edges };
+}
+
+/** Import graph; `under` keeps only files at or below a path */
+export function toModuleGraph(graph: ModuleGraph, indexed: Set<string>, under?: string): Graph {
+  const inScope = (p: string) => !under || under === "." || p === under || p.startsWith(under + "/");
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+
+  for (const [file, deps] of graph.imports) {
+    if (!inScope(file)) continue;
+    const dir = path.posix.dirname(file);
+    nodes.push({ id: file, label: path.posix.basename(file), group: dir, missing: !indexed.has(file) });
+    for (const d of deps) if (inScope(d)) edges.push({ from: file, to: d });
+  }
+  return { type: "graph", kind: "modules", nodes, edges };
+}
+
+// ── Traversal ─────────────────────────────────────────────────────────────────
+
+export type SymbolNeighbor = {
+  symbol: string;
+  relation: string;
+  direction: "out" | "in"; // out: `via` lists this symbol as related; in: this symbol lists `via`
+  via: string;
+  depth: number;
+  card: SymbolCard | null;
+};
+
+/**
+ * Breadth-first walk over `related` edges in both directions, so a card also
+ * finds the cards that point at it. Each symbol is reported once, at the
+ * shallowest depth it was reached.
+ */
+export function walkSymbolGraph(cards: SymbolCard[], start: string, maxDepth: number): SymbolNeighbor[] {
+  const find = cardLookup(cards);
+  const seen = new Set([start.toLowerCase()]);
+  const result: SymbolNeighbor[] = [];
+  let frontier = [start];
+
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+    const next: string[] = [];
+    for (const name of frontier) {
+      const card = find(name);
+      const out = (card?.related ?? []).map((r) => ({ symbol: r.symbol, relation: r.relation, direction: "out" as const }));
+      const incoming = cards.flatMap((c) =>
+        (c.related ?? [])
+          .filter((r) => r.symbol.toLowerCase() === name.toLowerCase())
+          .map((r) => ({ symbol: c.symbol, relation: r.relation, direction: "in" as const }))
+      );
+
+      for (const edge of [...out, ...incoming]) {
+        const neighbor = find(edge.symbol);
+        const key = (neighbor?.symbol ?? edge.symbol).toLowerCase();
+        if (seen.has(key)) continue;
+        seen.add(key);
+        result.push({
+          symbol: neighbor?.symbol ?? edge.symbol,
+          relation: edge.relation,
+          direction: edge.direction,
+          via: card?.symbol ?? name,
+          depth,
+          card: neighbor,
+        });
+        next.push(neighbor?.symbol ?? edge.symbol);
+      }
+    }
+    frontier = next;
+  }
+  return result;
+}
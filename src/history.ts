@@ -0,0 +1,166 @@
+import { execFileSync } from "node:child_process";
+import {
+  loadIndex,
+  loadModuleHistory,
+  loadSymbolHistory,
+  repoRoot,
+  toRepoPath,
+  type CardHistoryEntry,
+  type ExportEntry,
+  type RepoctxFileCache,
+  type SymbolCard,
+} from "./cache.js";
+import { cardView, diffSurface, type ModuleView, type SurfaceDiff } from "./get.js";
+
+// ── Result shapes ─────────────────────────────────────────────────────────────
+
+export type HistoryTarget = { kind: "module" | "symbol"; name: string }; // name: path or symbol name
+
+/** One saved version of a card, as listed by `repoctx log` */
+export type LogEntry = {
+  at: string;
+  head?: string | undefined;
+  summary: string;                       // module summary or symbol purpose
+  delta?: string | undefined;
+  symbols?: string[] | undefined;
+  publicSurfaceHash?: string | undefined;
+  surface?: SurfaceDiff | undefined;     // exports added/removed/re-kinded since the previous save
+  signature?: string | undefined;        // symbols only
+  file?: string | undefined;             // symbols only
+};
+
+export type LogResult = {
+  type: "log";
+  target: HistoryTarget;
+  entries: LogEntry[]; // newest first
+};
+
+export type ShowResult = {
+  type: "show";
+  target: HistoryTarget;
+  at: string;                           // as given to --at
+  savedAt?: string | undefined;         // when the matching version was saved
+  head?: string | undefined;            // and at which commit
+  module?: ModuleView | undefined;
+  symbol?: SymbolCard | undefined;
+};
+
+/** A path as typed, or a meta key as saved */
+async function modulePath(p: string): Promise<string> {
+  const idx = await loadIndex();
+  return idx.files[p] ? p : toRepoPath(p);
+}
+
+// ── repoctx log ───────────────────────────────────────────────────────────────
+
+function exportsOf(card: RepoctxFileCache): ExportEntry[] {
+  return card.exports ?? card.symbols.map((name): ExportEntry => ({ name, kind: "other" }));
+}
+
+function moduleLogEntries(history: CardHistoryEntry<RepoctxFileCache>[]): LogEntry[] {
+  return history.map(({ at, head, card }, i) => {
+    const entry: LogEntry = {
+      at,
+      ...(head !== undefined && { head }),
+      summary: card.summary,
+      ...(card.delta !== undefined && { delta: card.delta }),
+      symbols: card.symbols,
+      ...(card.publicSurfaceHash !== undefined && { publicSurfaceHash: card.publicSurfaceHash }),
+    };
+    const prev = history[i - 1]?.card;
+    if (prev) {
+      const surface = diffSurface(exportsOf(prev), exportsOf(card));
+      if (surface.added.length || surface.removed.length || surface.kindChanged.length) entry.surface = surface;
+    }
+    return entry;
+  }).reverse();
+}
+
+function symbolLogEntries(history: CardHistoryEntry<SymbolCard>[]): LogEntry[] {
+  return history.map(({ at, head, card }): LogEntry => ({
+    at,
+    ...(head !== undefined && { head }),
+    summary: card.purpose,
+    ...(card.signature !== undefined && { signature: card.signature }),
+    file: card.file,
+  })).reverse();
+}
+
+export async function getLog({ path: p, symbol }: { path?: string; symbol?: string }): Promise<LogResult> {
+  if (symbol !== undefined) {
+    return { type: "log", target: { kind: "symbol", name: symbol }, entries: symbolLogEntries(await loadSymbolHistory(symbol)) };
+  }
+  if (p === undefined) throw new Error("Specify a path or --symbol <name>");
+  const rel = await modulePath(p);
+  return { type: "log", target: { kind: "module", name: rel }, entries: moduleLogEntries(await loadModuleHistory(rel)) };
+}
+
+// ── repoctx show --at ─────────────────────────────────────────────────────────
+
+function git(args: string[]): string {
+  return execFileSync("git", args, { cwd: repoRoot(), encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] });
+}
+
+type AtPoint = { rev?: string | undefined; time: number };
+
+/** A revision (and its commit time), else a date */
+function resolveAt(at: string): AtPoint {
+  try {
+    const rev = git(["rev-parse", "--verify", "--quiet", `${at}^{commit}`]).trim();
+    if (rev) return { rev, time: Number(git(["show", "-s", "--format=%ct", rev]).trim()) * 1000 };
+  } catch {
+    // not a revision (or not a git repo): try it as a date
+  }
+  const time = Date.parse(at);
+  if (Number.isNaN(time)) throw new Error(`--at ${at} is neither a revision nor a date`);
+  return { time };
+}
+
+/**
+ * The last version saved in the history of `point`: for a revision, saved at
+ * one of its ancestors (so a branch that forked earlier doesn't see cards written
+ * for later work on main); for a date, or a save with no known commit, saved by then.
+ */
+function versionAt<T>(history: CardHistoryEntry<T>[], point: AtPoint): CardHistoryEntry<T> | null {
+  const ancestry = new Map<string, boolean | null>(); // head → ancestor of point.rev; null = unknown commit
+  const isAncestor = (head: string): boolean | null => {
+    if (!ancestry.has(head)) {
+      try {
+        git(["merge-base", "--is-ancestor", head, point.rev!]);
+        ancestry.set(head, true);
+      } catch (e) {
+        ancestry.set(head, (e as { status?: number }).status === 1 ? false : null);
+      }
+    }
+    return ancestry.get(head)!;
+  };
+
+  let found: CardHistoryEntry<T> | null = null;
+  for (const entry of history) {
+    const byAncestry = point.rev && entry.head ? isAncestor(entry.head) : null;
+    if (byAncestry ?? Date.parse(entry.at) <= point.time) found = entry;
+  }
+  return found;
+}
+
+export async function showAt({ path: p, symbol, at }: { path?: string; symbol?: string; at: string }): Promise<ShowResult> {
+  const point = resolveAt(at);
+  if (symbol !== undefined) {
+    const entry = versionAt(await loadSymbolHistory(symbol), point);
+    return {
+      type: "show",
+      target: { kind: "symbol", name: symbol },
+      at,
+      ...(entry && { savedAt: entry.at, head: entry.head, symbol: entry.card }),
+    };
+  }
+  if (p === undefined) throw new Error("Specify a path or --symbol <name>");
+  const rel = await modulePath(p);
+  const entry = versionAt(await loadModuleHistory(rel), point);
+  return {
+    type: "show",
+    target: { kind: "module", name: rel },
+    at,
+    ...(entry && { savedAt: entry.at, head: entry.head, module: cardView(entry.card, "historical") }),
+  };
+}
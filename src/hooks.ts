@@ -0,0 +1,204 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+import { loadIndex, loadFileCaches, contentHash, repoRoot } from "./cache.js";
+import { saveCheckpoint, switchBranchCheckpoint } from "./checkpoint.js";
+import { canExtractExports, extractExports } from "./languages.js";
+import { compareCard, getStale, type SurfaceDiff } from "./get.js";
+import { formatSurfaceDiff } from "./render.js";
+
+// ── Git hooks ─────────────────────────────────────────────────────────────────
+// Each hook script gets a marked block that calls `repoctx hook <name>`. The
+// block goes right after the shebang, so an existing hook that ends in `exit`
+// still runs it, and uninstall removes exactly those lines.
+
+export const HOOK_NAMES = ["post-commit", "post-checkout", "post-merge", "pre-commit"] as const;
+export type HookName = (typeof HOOK_NAMES)[number];
+
+export type PreCommitMode = "fail" | "warn";
+
+export type HookChange = {
+  hook: HookName;
+  file: string;
+  action: "created" | "added" | "updated" | "removed" | "deleted" | "skipped";
+  reason?: string | undefined;
+};
+
+const BLOCK_START = "# >>> repoctx >>> (managed by `repoctx hooks`; edit outside these lines)";
+const BLOCK_END = "# <<< repoctx <<<";
+const SHELLS = ["sh", "bash", "dash", "zsh", "ksh"];
+
+function git(args: string[]): string {
+  return execFileSync("git", ["-c", "core.quotepath=off", ...args], {
+    cwd: repoRoot(),
+    encoding: "utf8",
+    stdio: ["ignore", "pipe", "ignore"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
+
+/** Honors core.hooksPath */
+function hooksDir(): string {
+  return path.resolve(repoRoot(), git(["rev-parse", "--git-path", "hooks"]).trim());
+}
+
+function hookBlock(hook: HookName, preCommit: PreCommitMode): string[] {
+  const call = hook === "pre-commit"
+    ? `repoctx hook pre-commit${preCommit === "warn" ? " --warn" : ""} || exit 1`
+    : `repoctx hook ${hook} "$@"`;
+  return [BLOCK_START, `if command -v repoctx >/dev/null 2>&1; then ${call}; fi`, BLOCK_END];
+}
+
+/** The script without our block, and whether it had one */
+function stripBlock(lines: string[]): { rest: string[]; had: boolean } {
+  const start = lines.indexOf(BLOCK_START);
+  const end = lines.indexOf(BLOCK_END, start);
+  if (start < 0 || end < 0) return { rest: lines, had: false };
+  return { rest: [...lines.slice(0, start), ...lines.slice(end + 1)], had: true };
+}
+
+/** The interpreter of a `#!` line, e.g. "sh" for `#!/usr/bin/env sh` */
+function interpreter(shebang: string): string {
+  const parts = shebang.slice(2).trim().split(/\s+/);
+  const bin = path.basename(parts[0] ?? "");
+  return bin === "env" ? parts.find((p, i) => i > 0 && !p.startsWith("-")) ?? "" : bin;
+}
+
+async function readHook(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+async function installHook(hook: HookName, preCommit: PreCommitMode): Promise<HookChange> {
+  const file = path.join(hooksDir(), hook);
+  const existing = await readHook(file);
+  const block = hookBlock(hook, preCommit);
+
+  if (existing === null) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, ["#!/bin/sh", ...block, ""].join("\n"), { mode: 0o755 });
+    return { hook, file, action: "created" };
+  }
+
+  const lines = existing.split("\n");
+  const shebang = lines[0]?.startsWith("#!") ? lines[0] : null;
+  if (shebang && !SHELLS.includes(interpreter(shebang))) {
+    return { hook, file, action: "skipped", reason: `not a shell script; add \`repoctx hook ${hook}\` to it yourself` };
+  }
+  const { rest, had } = stripBlock(lines);
+  const at = shebang ? 1 : 0;
+  await fs.writeFile(file, [...rest.slice(0, at), ...block, ...rest.slice(at)].join("\n"));
+  await fs.chmod(file, 0o755);
+  return { hook, file, action: had ? "updated" : "added" };
+}
+
+/** post-commit, post-checkout and post-merge; pre-commit only when `preCommit` is given */
+export async function installHooks({ preCommit }: { preCommit?: PreCommitMode } = {}): Promise<HookChange[]> {
+  const dir = hooksDir();
+  const st = await fs.stat(dir).catch(() => null);
+  if (st && !st.isDirectory()) throw new Error(`Git's hooks path ${dir} is not a directory (check core.hooksPath)`);
+
+  const hooks = HOOK_NAMES.filter((h) => h !== "pre-commit" || preCommit !== undefined);
+  const changes: HookChange[] = [];
+  for (const hook of hooks) changes.push(await installHook(hook, preCommit ?? "fail"));
+  return changes;
+}
+
+/** Remove our block from every hook; a script left with nothing but its shebang is deleted */
+export async function uninstallHooks(): Promise<HookChange[]> {
+  const changes: HookChange[] = [];
+  for (const hook of HOOK_NAMES) {
+    const file = path.join(hooksDir(), hook);
+    const existing = await readHook(file);
+    if (existing === null) continue;
+    const { rest, had } = stripBlock(existing.split("\n"));
+    if (!had) continue;
+    if (rest.every((l) => !l.trim() || l.startsWith("#!"))) {
+      await fs.rm(file);
+      changes.push({ hook, file, action: "deleted" });
+    } else {
+      await fs.writeFile(file, rest.join("\n"));
+      changes.push({ hook, file, action: "removed" });
+    }
+  }
+  return changes;
+}
+
+// ── Pre-commit gate ───────────────────────────────────────────────────────────
+
+export type GateEntry = { path: string; surface?: SurfaceDiff | undefined };
+
+/** Staged files whose exports no longer match their card (checked against the staged content, not the working tree) */
+export async function stagedContractChanges(): Promise<GateEntry[]> {
+  const staged = git(["diff", "--cached", "--relative", "--name-only", "--diff-filter=AMR"]).split("\n").filter(Boolean);
+  const idx = await loadIndex();
+  const cards = await loadFileCaches(staged.filter((f) => idx.files[f]), idx);
+
+  const entries: GateEntry[] = [];
+  for (const card of cards) {
+    if (card.hash === "meta") continue;
+    const content = git(["show", `:./${card.path}`]);
+    let current = null;
+    try {
+      current = canExtractExports(card.path) ? extractExports(content, card.path) : null;
+    } catch {
+      // unparseable: compareCard treats it as a contract change
+    }
+    const fresh = compareCard(card, contentHash(content), current);
+    if (fresh.status === "changed" && fresh.contractChanged) entries.push({ path: card.path, surface: fresh.surface });
+  }
+  return entries;
+}
+
+// ── repoctx hook <name> ───────────────────────────────────────────────────────
+
+/**
+ * What each hook does. Returns the exit code: only the pre-commit gate (in
+ * fail mode) can be non-zero — a repoctx problem never blocks git otherwise.
+ */
+export async function runHook(hook: string, args: string[], { warn = false }: { warn?: boolean } = {}): Promise<number> {
+  try {
+    switch (hook) {
+      case "post-commit": {
+        const cp = await saveCheckpoint();
+        console.error(`repoctx: checkpoint ${cp.branch} @ ${cp.head.slice(0, 7)}`);
+        return 0;
+      }
+      case "post-checkout": {
+        if (args[2] !== "1") return 0; // file checkout, not a branch switch
+        const { checkpoint, restored } = await switchBranchCheckpoint();
+        const how = restored ? `back to ${checkpoint.branch}'s checkpoint` : "new checkpoint";
+        console.error(`repoctx: ${how} @ ${checkpoint.head.slice(0, 7)}`);
+        return 0;
+      }
+      case "post-merge": {
+        const stale = await getStale();
+        if (stale.length === 0) return 0;
+        const contract = stale.filter((s) => s.contractChanged).length;
+        console.error(`repoctx: ${stale.length} stale card(s) after merge (${contract} with changed exports) — run repoctx stale`);
+        return 0;
+      }
+      case "pre-commit": {
+        const changed = await stagedContractChanges();
+        if (changed.length === 0) return 0;
+        console.error(`repoctx: ${changed.length} staged file(s) changed their exports since their card was saved:`);
+        for (const c of changed) {
+          const detail = c.surface ? formatSurfaceDiff(c.surface) : "";
+          console.error(`  ⚠ ${c.path}${detail ? `  (${detail})` : ""}`);
+          console.error(`    → repoctx save ${c.path} "<updated summary>" --keywords "..." --delta "what changed"`);
+        }
+        if (warn) return 0;
+        console.error("Re-save the cards, or commit with --no-verify to skip this check.");
+        return 1;
+      }
+      default:
+        throw new Error(`Unknown hook "${hook}". Expected one of: ${HOOK_NAMES.join(", ")}`);
+    }
+  } catch (e) {
+    console.error(`repoctx: ${hook} hook failed: ${(e as Error).message}`);
+    return 0;
+  }
+}
@@ -0,0 +1,126 @@
+import fs from "node:fs/promises";
+import type { Dirent } from "node:fs";
+import path from "node:path";
+import { execSync } from "node:child_process";
+import { repoRoot, toRepoPath, fromRepoPath } from "./cache.js";
+import { loadConfig, isIncluded } from "./config.js";
+import { adapterFor, SOURCE_EXTENSIONS, type ImportResolver } from "./languages.js";
+
+// ── Module resolution ─────────────────────────────────────────────────────────
+// Each file's imports are resolved by its language adapter (see languages.ts);
+// this module only keeps the results inside the repo and out of vendored or
+// generated directories.
+
+const EXCLUDED_DIRS = new Set(["node_modules", ".git", "dist", ".repoctx", "vendor", "__pycache__", ".venv", "venv"]);
+
+function isSourceFile(p: string, extensions: string[]): boolean {
+  return extensions.includes(path.extname(p).toLowerCase()) && !p.endsWith(".d.ts");
+}
+
+export type ModuleResolver = {
+  /** Repo-relative paths of local files imported by `relPath` (packages are skipped) */
+  importsOf(relPath: string, source?: string): Promise<string[]>;
+};
+
+export function createModuleResolver(): ModuleResolver {
+  const resolvers = new Map<string, ImportResolver>(); // per language, created on first use
+
+  return {
+    async importsOf(relPath, source) {
+      const adapter = adapterFor(relPath);
+      if (!adapter) return [];
+      const text = source ?? await fs.readFile(fromRepoPath(relPath), "utf8");
+      let resolve = resolvers.get(adapter.name);
+      if (!resolve) {
+        resolve = adapter.createResolver();
+        resolvers.set(adapter.name, resolve);
+      }
+
+      const found = new Set<string>();
+      for (const target of resolve(relPath, text)) {
+        if (target === relPath || target.startsWith("..") || target.split("/").some((d) => EXCLUDED_DIRS.has(d))) continue;
+        found.add(target);
+      }
+      return [...found];
+    },
+  };
+}
+
+// ── Source listing ────────────────────────────────────────────────────────────
+
+async function walk(dir: string, extensions: string[], out: string[]) {
+  let entries: Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const e of entries) {
+    if (e.isDirectory()) {
+      if (!EXCLUDED_DIRS.has(e.name)) await walk(path.join(dir, e.name), extensions, out);
+    } else if (isSourceFile(e.name, extensions)) {
+      out.push(toRepoPath(path.join(dir, e.name)));
+    }
+  }
+}
+
+/**
+ * Tracked and untracked-but-not-ignored source files (only tracked ones with
+ * `tracked`); a directory walk outside git. The config's `extensions`,
+ * `include` and `exclude` apply.
+ */
+export async function listSourceFiles({ tracked = false }: { tracked?: boolean } = {}): Promise<string[]> {
+  const config = await loadConfig();
+  const extensions = (config.extensions ?? SOURCE_EXTENSIONS).map((e) => e.toLowerCase());
+  let files: string[];
+  try {
+    const raw = execSync(`git -c core.quotepath=off ls-files --cached${tracked ? "" : " --others --exclude-standard"}`, {
+      cwd: repoRoot(),
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    files = [...new Set(raw.split("\n").filter(Boolean))]
+      .filter((f) => isSourceFile(f, extensions))
+      .filter((f) => !f.split("/").some((d) => EXCLUDED_DIRS.has(d)));
+  } catch {
+    files = [];
+    await walk(repoRoot(), extensions, files);
+  }
+  return files.filter((f) => isIncluded(config, f));
+}
+
+// ── Module graph ──────────────────────────────────────────────────────────────
+
+export type ModuleGraph = {
+  imports: Map<string, string[]>;   // file → files it imports
+  importers: Map<string, string[]>; // file → files that import it
+};
+
+export async function buildModuleGraph(): Promise<ModuleGraph> {
+  const resolver = createModuleResolver();
+  const imports = new Map<string, string[]>();
+  const importers = new Map<string, string[]>();
+
+  for (const file of await listSourceFiles()) {
+    let deps: string[];
+    try {
+      deps = await resolver.importsOf(file);
+    } catch {
+      continue; // deleted since listing, or unreadable
+    }
+    imports.set(file, deps);
+    for (const d of deps) importers.set(d, [...(importers.get(d) ?? []), file]);
+  }
+  return { imports, importers };
+}
+
+/** Imports of one file plus its importers across the repo (a full import-graph scan) */
+export async function importEdgesOf(
+  relPath: string,
+  graph?: ModuleGraph
+): Promise<{ imports: string[]; importers: string[] }> {
+  const g = graph ?? await buildModuleGraph();
+  const imports = g.imports.get(relPath) ?? await createModuleResolver().importsOf(relPath);
+  return { imports, importers: g.importers.get(relPath) ?? [] };
+}
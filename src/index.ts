@@ -1,14 +1,33 @@
 #!/usr/bin/env node
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { saveManual } from "./save.js";
 import { saveSymbol, parseRelated } from "./saveSymbol.js";
 import { getContext, getStale } from "./get.js";
-import { saveCheckpoint } from "./checkpoint.js";
+import { saveCheckpoint, listCheckpoints, type Checkpoint } from "./checkpoint.js";
 import { runDiff } from "./diff.js";
+import { getLog, showAt } from "./history.js";
+import { installHooks, uninstallHooks, runHook } from "./hooks.js";
+import { runDoctor } from "./doctor.js";
+import { migrateStore } from "./migrate.js";
+import { exportBundle, readBundle, importBundle, IMPORT_STRATEGIES } from "./share.js";
+import { installMergeDriver, runMergeDriver } from "./mergedriver.js";
 import { getOnboardingText } from "./onboarding.js";
-import { repoctxDir } from "./cache.js";
+import { runMcpServer } from "./mcp.js";
+import { detectMoves, applyMoves, moveCard } from "./moves.js";
+import { searchContext } from "./search.js";
+import { findUsages } from "./usages.js";
+import { getCoverage } from "./coverage.js";
+import { scanRepo } from "./scan.js";
+import { loadConfig, keywordWarning, getConfigValue, setConfigValue } from "./config.js";
+import { removeModule, removeSymbol, renameSymbol, pruneCards, type RemovalPlan } from "./remove.js";
+import { renderResult, parseOutputFormat, renderGraph, parseGraphFormat, type OutputFormat } from "./render.js";
+import { buildSymbolGraph, toModuleGraph, type Graph } from "./graph.js";
+import { buildModuleGraph } from "./imports.js";
+import { repoRoot, toRepoPath, loadIndex, loadAllSymbols, STORE_VERSION } from "./cache.js";
+import { findWorkspace, workspaceRoot } from "./workspaces.js";
+import { createTimings, type Timings } from "./timing.js";
 
 const program = new Command();
 
@@ -17,13 +36,45 @@ program
   .description("Structured context layer for AI coding assistants")
   .version("0.1.0");
 
+// ── Option parsers ────────────────────────────────────────────────────────────
+// commander rejects bad values with `error: option '--top <n>' argument 'abc' is invalid`
+
+/** Counts and token budgets */
+function positiveInt(value: string): number {
+  if (!/^\d+$/.test(value.trim()) || Number(value) === 0) throw new InvalidArgumentError("Expected a positive whole number.");
+  return Number(value);
+}
+
+function percentage(value: string): number {
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n) || n < 0 || n > 100) throw new InvalidArgumentError("Expected a percentage from 0 to 100.");
+  return n;
+}
+
+// Upgrade a .repoctx/ written by an older repoctx before any command reads it,
+// and fail early on a broken config. doctor reports the format itself (and
+// --fix migrates after repairing); git hooks and the merge driver run inside
+// git operations, which must neither fail nor rewrite the store because of
+// repoctx (runHook reports its own errors); `config set` must be able to
+// repair the config.
+const NO_PREFLIGHT = new Set(["doctor", "hook", "merge-driver"]);
+
+program.hook("preAction", async (_program, action) => {
+  if (NO_PREFLIGHT.has(action.name())) return;
+  const migrated = await migrateStore();
+  if (migrated) {
+    console.error(`✓ Upgraded .repoctx/ from format ${migrated.from} to ${migrated.to} (backup in .repoctx/${migrated.backup})`);
+  }
+  if (action.parent?.name() !== "config") await loadConfig();
+});
+
 // ── repoctx save ──────────────────────────────────────────────────────────────
 program
   .command("save")
   .description("Save context for a file. Always include --keywords so future agents can find this module with repoctx get --keyword <topic>")
   .argument("<file>", "File path (or virtual key with --meta)")
   .argument("<summary>", "What this file does, its role, and conventions")
-  .option("--symbols <symbols>", "Comma-separated exported symbols/functions", "")
+  .option("--symbols <symbols>", "Extra comma-separated symbols. Exports of TS/JS files are extracted automatically", "")
   .option("--keywords <keywords>", "REQUIRED in practice: comma-separated tags (e.g. dal,payments,http). Used by repoctx get --keyword", "")
   .option("--deps <deps>", "Comma-separated dependencies of this module", "")
   .option("--footguns <text>", "Gotchas: things that break if touched wrong (e.g. soft-delete vs hard-delete)")
@@ -43,6 +94,8 @@ program
       meta: !!opts.meta,
     });
     console.log(`✓ Saved context for ${rel}`);
+    const warning = await keywordWarning(split(opts.keywords));
+    if (warning) console.error(warning);
   });
 
 // ── repoctx save-symbol ───────────────────────────────────────────────────────
@@ -52,7 +105,7 @@ program
   .argument("<symbol>", "Symbol name (e.g. removeCharge)")
   .argument("<purpose>", "One-line description of what this symbol does")
   .requiredOption("--file <file>", "File where the symbol lives")
-  .option("--kind <kind>", "function | class | constant | type | other", "function")
+  .option("--kind <kind>", "function | class | constant | type | enum | namespace | other", "function")
   .option("--signature <sig>", "Full signature (e.g. '({ chargeSchema }) => async ({ id }) => Promise<Result>')")
   .option("--related <pairs>", "Typed relations: 'symbol:relation,symbol:relation' (e.g. 'deleteCharge:soft-delete variant')", "")
   .option("--keywords <keywords>", "Same tags as the parent module so --keyword lookups include this symbol too", "")
@@ -69,59 +122,284 @@ program
       keywords: split(opts.keywords),
     });
     console.log(`✓ Saved symbol card for ${symbol}`);
+    const warning = await keywordWarning(split(opts.keywords));
+    if (warning) console.error(warning);
   });
 
+/** --format, else the config's output.format, else text */
+async function outputFormat(option: string | undefined): Promise<OutputFormat> {
+  return parseOutputFormat(option ?? (await loadConfig()).output?.format);
+}
+
+/** --verbose goes to stderr so it never mixes into --format json output */
+function printTimings(timings: Timings | undefined) {
+  if (timings) for (const line of timings.lines()) console.error(line);
+}
+
 // ── repoctx get ───────────────────────────────────────────────────────────────
 program
   .command("get")
   .description("Print saved context. Prefer --keyword over bare get — it's faster, cheaper, and less noisy")
   .argument("[path]", "Filter by file or directory path")
-  .option("--keyword <keywords>", "Filter by keyword(s), comma-separated OR logic. e.g. --keyword dal,payments. Use this before reaching for Read on a source file")
+  .option("--keyword <query>", "Filter by keyword query: a,b = OR, a+b = AND, -a = NOT, (a|b)+c = grouping. e.g. --keyword payments+dal. Use this before reaching for Read on a source file")
   .option("--symbol <name>", "Look up a specific symbol card by name")
+  .option("--depth <n>", "With --symbol: follow related cards (both directions) N hops and include their purpose and signature", positiveInt)
+  .option("--importers", "Resolve imports and list the files that import each module (scans the repo's import graph)")
+  .option("--workspace <name>", "Only this npm/pnpm workspace (package name, unscoped name or directory). From the root, get merges every workspace's own .repoctx/")
+  .option("--budget <tokens>", "Cap output at ~N tokens: footguns and stale warnings first, then summaries, then symbol lists (default: output.budget from the config)", positiveInt)
+  .option("--format <format>", "text | markdown | xml | json (default: output.format from the config, else text)")
+  .option("--verbose", "Print per-phase timings to stderr")
   .action(async (filterPath: string | undefined, opts) => {
-    const keywords = opts.keyword
-      ? opts.keyword.split(",").map((s: string) => s.trim()).filter(Boolean)
-      : undefined;
-
-    const output = await getContext({
+    const format = await outputFormat(opts.format);
+    const timings = opts.verbose ? createTimings() : undefined;
+    const budget: number | undefined = opts.budget ?? (await loadConfig()).output?.budget;
+    const result = await getContext({
       ...(filterPath !== undefined && { filterPath }),
-      ...(keywords !== undefined && { keywords }),
+      ...(opts.keyword !== undefined && { keywordQuery: opts.keyword }),
+      ...(budget !== undefined && { budget }),
       ...(opts.symbol !== undefined && { symbol: opts.symbol }),
+      ...(opts.depth !== undefined && { depth: opts.depth }),
+      importers: !!opts.importers,
+      ...(opts.workspace !== undefined && { workspace: opts.workspace }),
+      ...(timings !== undefined && { timings }),
     });
+    process.stdout.write(renderResult(result, format) + "\n");
+    timings?.mark("render");
+    printTimings(timings);
+  });
 
-    if (!output.trim()) {
-      console.log("No context found. Use `repoctx save` to add context.");
+// ── repoctx log / show ────────────────────────────────────────────────────────
+program
+  .command("log")
+  .description("History of a module or symbol card: every save with its summary, delta and export changes, newest first")
+  .argument("[path]", "Module path (or meta key)")
+  .option("--symbol <name>", "History of a symbol card instead")
+  .option("--format <format>", "text | markdown | xml | json (default: output.format from the config, else text)")
+  .action(async (filePath: string | undefined, opts) => {
+    const format = await outputFormat(opts.format);
+    const result = await getLog({
+      ...(filePath !== undefined && { path: filePath }),
+      ...(opts.symbol !== undefined && { symbol: opts.symbol }),
+    });
+    process.stdout.write(renderResult(result, format) + "\n");
+  });
+
+program
+  .command("show")
+  .description("A card as it was at a revision or date, e.g. to match the code on an old branch")
+  .argument("[path]", "Module path (or meta key)")
+  .requiredOption("--at <rev|date>", "A git revision (cards saved on its ancestors) or a date like 2026-03-01")
+  .option("--symbol <name>", "Show a symbol card instead")
+  .option("--format <format>", "text | markdown | xml | json (default: output.format from the config, else text)")
+  .action(async (filePath: string | undefined, opts) => {
+    const format = await outputFormat(opts.format);
+    const result = await showAt({
+      ...(filePath !== undefined && { path: filePath }),
+      ...(opts.symbol !== undefined && { symbol: opts.symbol }),
+      at: opts.at,
+    });
+    process.stdout.write(renderResult(result, format) + "\n");
+  });
+
+// ── repoctx graph ─────────────────────────────────────────────────────────────
+program
+  .command("graph")
+  .description("Export the symbol relation graph or the module import graph as Mermaid, Graphviz DOT or JSON")
+  .option("--symbols", "Graph symbol cards and their related edges")
+  .option("--modules [path]", "Graph source files and their imports, optionally only under a path. Files without a card are dashed")
+  .option("--format <format>", "mermaid | dot | json", "mermaid")
+  .action(async (opts) => {
+    const format = parseGraphFormat(opts.format);
+    if (!opts.symbols && !opts.modules) {
+      console.error("Specify what to graph: --symbols or --modules");
+      process.exit(1);
+    }
+    let graph: Graph;
+    if (opts.modules) {
+      const under = typeof opts.modules === "string"
+        ? toRepoPath(opts.modules)
+        : undefined;
+      const indexed = new Set(Object.keys((await loadIndex()).files));
+      graph = toModuleGraph(await buildModuleGraph(), indexed, under);
+    } else {
+      graph = buildSymbolGraph(await loadAllSymbols());
+    }
+    process.stdout.write(renderGraph(graph, format) + "\n");
+  });
+
+// ── repoctx search ────────────────────────────────────────────────────────────
+program
+  .command("search")
+  .description("Ranked full-text search over summaries, footguns, deltas and symbol cards. Use when you don't know the keyword tag")
+  .argument("<query>", "Free text, e.g. \"refund stripe charge\"")
+  .option("--limit <n>", "Maximum number of results", positiveInt, 10)
+  .action(async (query: string, opts) => {
+    const hits = await searchContext(query, { limit: opts.limit });
+    if (hits.length === 0) {
+      console.log(`No matches for "${query}".`);
       return;
     }
+    hits.forEach((h, i) => {
+      const label = h.type === "module" ? `[${h.name}]` : `[symbol: ${h.name}]`;
+      console.log(`${i + 1}. ${label}  (score ${h.score})`);
+      if (h.snippet) console.log(`   ${h.snippet}`);
+    });
+  });
 
-    process.stdout.write(output + "\n");
+// ── repoctx usages ────────────────────────────────────────────────────────────
+program
+  .command("usages")
+  .description("Find where a public symbol is used: searches the files that import its file, in TS/JS, Python or Go")
+  .argument("<symbol>", "Symbol name, e.g. createCharge or Ledger.post")
+  .option("--file <path>", "File that declares it (default: its symbol card's file, or the one module card exporting it)")
+  .action(async (symbol: string, opts) => {
+    const result = await findUsages(symbol, { ...(opts.file !== undefined && { file: opts.file }) });
+    if (result.usages.length === 0) {
+      console.log(`No usages of ${symbol} (declared in ${result.file}) in ${result.searched} file(s) that can see it.`);
+      return;
+    }
+    for (const u of result.usages) console.log(`${u.path}:${u.line}  ${u.text}`);
+    const files = new Set(result.usages.map((u) => u.path)).size;
+    console.log(`${result.usages.length} usage(s) of ${symbol} (declared in ${result.file}) in ${files} of ${result.searched} file(s) that can see it.`);
   });
 
 // ── repoctx stale ─────────────────────────────────────────────────────────────
 program
   .command("stale")
-  .description("List all indexed files whose content changed since last save")
-  .action(async () => {
-    const results = await getStale();
-    if (results.length === 0) {
-      console.log("✓ All context is up to date.");
-      return;
+  .description("List all indexed files whose content changed since last save, split into contract vs implementation changes")
+  .option("--contract-only", "Only list files whose public surface (exports) changed — the ones that need a re-save")
+  .option("--fix-moves", "Detect moved/renamed files (git rename detection or content hash) and move their cards first")
+  .option("--format <format>", "text | markdown | xml | json (default: output.format from the config, else text)")
+  .option("--verbose", "Print per-phase timings to stderr")
+  .action(async (opts) => {
+    const format = await outputFormat(opts.format);
+    const timings = opts.verbose ? createTimings() : undefined;
+    const moves = opts.fixMoves ? await detectMoves() : [];
+    await applyMoves(moves);
+    if (opts.fixMoves) timings?.mark("fix moves", `${moves.length} moved`);
+
+    const entries = await getStale({ contractOnly: !!opts.contractOnly, ...(timings !== undefined && { timings }) });
+    const output = renderResult({ type: "stale", contractOnly: !!opts.contractOnly, moves, entries }, format);
+    process.stdout.write(output + "\n");
+    timings?.mark("render");
+    printTimings(timings);
+  });
+
+// ── repoctx coverage ──────────────────────────────────────────────────────────
+program
+  .command("coverage")
+  .description("List source files without a module card, ranked by churn, size and importers, with per-directory coverage")
+  .argument("[path]", "Only files at or below this path")
+  .option("--ignore <globs>", "Comma-separated globs to leave out (e.g. \"**/*.test.ts,scripts/**\")", "")
+  .option("--since <date>", "Count commits since this date for churn", "1 year ago")
+  .option("--top <n>", "How many uncovered and indexed files to list", positiveInt, 20)
+  .option("--min <pct>", "Exit 1 when coverage is below this percentage", percentage)
+  .option("--format <format>", "text | markdown | xml | json (default: output.format from the config, else text)")
+  .action(async (under: string | undefined, opts) => {
+    const format = await outputFormat(opts.format);
+    const split = (s: string) => s ? s.split(",").map((x: string) => x.trim()).filter(Boolean) : [];
+    const result = await getCoverage({
+      ...(under !== undefined && { under: toRepoPath(under) }),
+      ignore: split(opts.ignore),
+      since: opts.since,
+      top: opts.top,
+    });
+    process.stdout.write(renderResult(result, format) + "\n");
+    if (opts.min !== undefined && result.percent < opts.min) {
+      console.error(`Coverage ${result.percent}% is below --min ${opts.min}%`);
+      process.exitCode = 1;
+    }
+  });
+
+// ── repoctx mv ────────────────────────────────────────────────────────────────
+program
+  .command("mv")
+  .description("Move the module card (and symbol cards pointing at it) from an old path to a new one")
+  .argument("<old>", "Path the card is currently saved under")
+  .argument("<new>", "New path of the file")
+  .action(async (oldPath: string, newPath: string) => {
+    const { moved, symbols } = await moveCard(oldPath, newPath);
+    if (!moved && symbols.length === 0) {
+      console.error(`No card found for ${oldPath}`);
+      process.exit(1);
+    }
+    if (moved) console.log(`✓ Moved card ${oldPath} → ${newPath}`);
+    if (symbols.length > 0) console.log(`✓ Updated ${symbols.length} symbol card(s): ${symbols.join(", ")}`);
+  });
+
+// ── repoctx rm / rm-symbol / rename-symbol / prune ────────────────────────────
+function printRemoval(plan: RemovalPlan, dryRun: boolean) {
+  const verb = dryRun ? "Would remove" : "✓ Removed";
+  for (const p of plan.modules) console.log(`${verb} module card ${p}`);
+  for (const s of plan.symbols) console.log(`${verb} symbol card ${s}`);
+}
+
+program
+  .command("rm")
+  .description("Delete the module card for a file (or --meta key)")
+  .argument("<path>", "File path or meta key")
+  .option("--with-symbols", "Also delete symbol cards whose --file is this path")
+  .option("--dry-run", "Show what would be removed without changing anything")
+  .action(async (filePath: string, opts) => {
+    const plan = await removeModule(filePath, { withSymbols: !!opts.withSymbols, dryRun: !!opts.dryRun });
+    if (plan.modules.length === 0 && plan.symbols.length === 0) {
+      console.error(`No card found for ${filePath}`);
+      process.exit(1);
+    }
+    printRemoval(plan, !!opts.dryRun);
+  });
+
+program
+  .command("rm-symbol")
+  .description("Delete a symbol card")
+  .argument("<name>", "Symbol name")
+  .option("--dry-run", "Show what would be removed without changing anything")
+  .action(async (name: string, opts) => {
+    const plan = await removeSymbol(name, { dryRun: !!opts.dryRun });
+    if (plan.symbols.length === 0) {
+      console.error(`No symbol card found: "${name}"`);
+      process.exit(1);
+    }
+    printRemoval(plan, !!opts.dryRun);
+  });
+
+program
+  .command("rename-symbol")
+  .description("Rename a symbol card and rewrite related references to it in other cards")
+  .argument("<old>", "Current symbol name")
+  .argument("<new>", "New symbol name")
+  .option("--dry-run", "Show what would change without changing anything")
+  .action(async (oldName: string, newName: string, opts) => {
+    const plan = await renameSymbol(oldName, newName, { dryRun: !!opts.dryRun });
+    console.log(`${opts.dryRun ? "Would rename" : "✓ Renamed"} symbol card ${plan.from} → ${plan.to}`);
+    if (plan.rewritten.length > 0) {
+      console.log(`${opts.dryRun ? "Would update" : "✓ Updated"} related references in: ${plan.rewritten.join(", ")}`);
     }
-    console.log(`${results.length} stale file(s):\n`);
-    for (const { path: p, reason } of results) {
-      console.log(`  ⚠ ${p}  (${reason})`);
-      console.log(`    → repoctx save ${p} "<updated summary>" --keywords "..." --delta "what changed"`);
+  });
+
+program
+  .command("prune")
+  .description("Delete module and symbol cards whose files no longer exist (meta entries are kept)")
+  .option("--dry-run", "Show what would be removed without changing anything")
+  .action(async (opts) => {
+    const plan = await pruneCards({ dryRun: !!opts.dryRun });
+    if (plan.modules.length === 0 && plan.symbols.length === 0) {
+      console.log("✓ Nothing to prune.");
+      return;
     }
+    printRemoval(plan, !!opts.dryRun);
   });
 
 // ── repoctx checkpoint ────────────────────────────────────────────────────────
 program
   .command("checkpoint")
   .description("Save current git HEAD as baseline for future diffs")
-  .action(async () => {
+  .option("--name <label>", "Also keep it under a name, for repoctx diff --from <label>")
+  .action(async (opts) => {
     try {
-      const cp = await saveCheckpoint();
-      console.log(`✓ Checkpoint saved: ${cp.branch} @ ${cp.head.slice(0, 7)} (${cp.at})`);
+      const cp = await saveCheckpoint({ ...(opts.name !== undefined && { name: opts.name }) });
+      const label = cp.name ? ` "${cp.name}"` : "";
+      console.log(`✓ Checkpoint${label} saved: ${cp.branch} @ ${cp.head.slice(0, 7)} (${cp.at})`);
     } catch (e: any) {
       console.error(`Error: ${e?.message ?? e}`);
       console.error("Make sure you are inside a git repository.");
@@ -129,26 +407,208 @@ program
     }
   });
 
+// ── repoctx checkpoints ───────────────────────────────────────────────────────
+program
+  .command("checkpoints")
+  .description("List saved checkpoints")
+  .action(async () => {
+    const { last, named } = await listCheckpoints();
+    if (!last && named.length === 0) {
+      console.log("No checkpoints yet. Run repoctx checkpoint [--name <label>].");
+      return;
+    }
+    const line = (cp: Checkpoint) => `${cp.head.slice(0, 7)}  ${cp.branch}  ${cp.at}`;
+    if (last) console.log(`(last)  ${line(last)}${last.name ? `  = ${last.name}` : ""}`);
+    const width = Math.max(0, ...named.map((cp) => cp.name?.length ?? 0));
+    for (const cp of named) console.log(`${(cp.name ?? "").padEnd(width)}  ${line(cp)}`);
+  });
+
 // ── repoctx diff ──────────────────────────────────────────────────────────────
 program
   .command("diff")
-  .description("Show changes since last checkpoint, formatted for Claude")
-  .option("--top <n>", "Show only top N changed files by lines modified")
+  .description("Show changes since last checkpoint (or any range), formatted for Claude")
+  .option("--from <name|rev>", "Start of the range: a checkpoint name or git revision (default: last checkpoint)")
+  .option("--to <name|rev|worktree|staged>", "End of the range: a checkpoint, a revision, uncommitted work incl. untracked files (worktree), or the index (staged). Default: HEAD")
+  .option("--merge-base <branch>", "Start from where HEAD forked off <branch> instead of a checkpoint")
+  .option("--top <n>", "Show only top N changed files by lines modified", positiveInt)
+  .option("--hunks <n>", "Also print the first N raw hunks of each file under its summary", positiveInt)
+  .option("--budget <tokens>", "Cap output at ~N tokens: file list first, then per-file summaries, then raw hunks", positiveInt)
+  .option("--format <format>", "text | markdown | xml | json (default: output.format from the config, else text)")
   .action(async (opts) => {
-    const top = opts.top ? Number(opts.top) : undefined;
-    const output = await runDiff(top !== undefined ? { top } : {});
+    const format = await outputFormat(opts.format);
+    const top: number | undefined = opts.top;
+    const result = await runDiff({
+      ...(opts.from !== undefined && { from: opts.from }),
+      ...(opts.to !== undefined && { to: opts.to }),
+      ...(opts.mergeBase !== undefined && { mergeBase: opts.mergeBase }),
+      ...(top !== undefined && { top }),
+      ...(opts.hunks !== undefined && { hunks: opts.hunks }),
+      ...(opts.budget !== undefined && { budget: opts.budget }),
+    });
+    const output = renderResult(result, format);
     process.stdout.write(output + "\n");
   });
 
+// ── repoctx hooks ─────────────────────────────────────────────────────────────
+const hooks = program
+  .command("hooks")
+  .description("Manage git hooks: checkpoint on commit, per-branch checkpoints on checkout, stale notice after merge");
+
+hooks
+  .command("install")
+  .description("Add repoctx to the post-commit, post-checkout and post-merge hooks (existing hooks are kept)")
+  .option("--pre-commit [mode]", "Also gate commits on staged files whose exports changed without a repoctx save: fail | warn", false)
+  .action(async (opts) => {
+    const preCommit = opts.preCommit === true ? "fail" : opts.preCommit || undefined;
+    if (preCommit !== undefined && preCommit !== "fail" && preCommit !== "warn") {
+      console.error(`Unknown --pre-commit mode "${preCommit}". Use fail or warn`);
+      process.exit(1);
+    }
+    for (const c of await installHooks({ ...(preCommit !== undefined && { preCommit }) })) {
+      if (c.action === "skipped") console.log(`⚠ Skipped ${c.hook}: ${c.reason}`);
+      else console.log(`✓ ${c.hook}: ${c.action === "created" ? "created" : c.action === "updated" ? "updated" : "added to"} ${path.relative(process.cwd(), c.file)}`);
+    }
+  });
+
+hooks
+  .command("uninstall")
+  .description("Remove repoctx from every hook, leaving the rest of each script alone")
+  .action(async () => {
+    const changes = await uninstallHooks();
+    if (changes.length === 0) console.log("No repoctx hooks installed.");
+    for (const c of changes) {
+      console.log(`✓ ${c.hook}: ${c.action === "deleted" ? "deleted" : "removed from"} ${path.relative(process.cwd(), c.file)}`);
+    }
+  });
+
+// Run by the installed hook scripts
+program
+  .command("hook", { hidden: true })
+  .argument("<name>", "Hook name")
+  .argument("[args...]", "Arguments git passed to the hook")
+  .option("--warn", "pre-commit: report instead of failing")
+  .action(async (name: string, args: string[], opts) => {
+    process.exitCode = await runHook(name, args, { warn: !!opts.warn });
+  });
+
+// ── repoctx doctor ────────────────────────────────────────────────────────────
+program
+  .command("doctor")
+  .description("Check that index.json, the card files, the keyword index and the symbol index agree; --fix rebuilds the derived indexes")
+  .option("--fix", "Rebuild indexes from the card files, quarantine unreadable and orphaned files, and upgrade the store format")
+  .action(async (opts) => {
+    const report = await runDoctor({ fix: !!opts.fix });
+    const format = report.version === null ? "unknown format" : `format ${report.version}${report.version === STORE_VERSION ? " (current)" : ""}`;
+    console.log(`.repoctx/ — ${format}`);
+    if (report.issues.length === 0) {
+      console.log("✓ No problems found.");
+      return;
+    }
+    console.log(`${report.issues.length} problem(s):`);
+    const width = Math.max(...report.issues.map((i) => i.kind.length));
+    for (const i of report.issues) console.log(`  ✗ ${i.kind.padEnd(width)}  ${i.file}: ${i.detail}`);
+    if (opts.fix) {
+      console.log("");
+      for (const f of report.fixed) console.log(`✓ ${f}`);
+    } else {
+      console.log("\nRun repoctx doctor --fix to rebuild the indexes from the card files.");
+      process.exitCode = 1;
+    }
+  });
+
+// ── repoctx export / import ───────────────────────────────────────────────────
+program
+  .command("export")
+  .description("Write every module and symbol card to one JSON bundle, for sharing without committing .repoctx/")
+  .argument("<bundle.json>", "Output file, or - for stdout")
+  .action(async (file: string) => {
+    const bundle = await exportBundle();
+    const json = JSON.stringify(bundle, null, 2) + "\n";
+    if (file === "-") {
+      process.stdout.write(json);
+      return;
+    }
+    await fs.writeFile(file, json);
+    console.log(`✓ Exported ${bundle.modules.length} module card(s) and ${bundle.symbols.length} symbol card(s) to ${file}`);
+  });
+
+program
+  .command("import")
+  .description("Merge a bundle from repoctx export into this store")
+  .argument("<bundle>", "Bundle file")
+  .option("--strategy <strategy>", `When both sides have a card and they differ: ${IMPORT_STRATEGIES.join(" | ")}`, "newest")
+  .option("--dry-run", "Show what would change without changing anything")
+  .action(async (file: string, opts) => {
+    if (!IMPORT_STRATEGIES.includes(opts.strategy)) {
+      console.error(`Unknown --strategy "${opts.strategy}". Use ${IMPORT_STRATEGIES.join(", ")}`);
+      process.exit(1);
+    }
+    const report = await importBundle(await readBundle(file), { strategy: opts.strategy, dryRun: !!opts.dryRun });
+    const dry = report.dryRun;
+    if (report.added.length > 0) {
+      console.log(`${dry ? "Would add" : "✓ Added"} ${report.added.length} card(s): ${report.added.join(", ")}`);
+    }
+    if (report.unchanged > 0) console.log(`${report.unchanged} card(s) already identical`);
+    if (report.conflicts.length === 0) {
+      if (report.added.length === 0) console.log("✓ Nothing to import.");
+      return;
+    }
+    const pending = report.conflicts.filter((c) => !c.resolved);
+    console.log(`${report.conflicts.length} card(s) differ:`);
+    for (const c of report.conflicts) {
+      const label = c.kind === "symbol" ? `symbol:${c.name}` : c.name;
+      const outcome = !c.resolved ? "unresolved" : c.resolved === "theirs" ? (dry ? "would take bundle's" : "took bundle's") : "kept ours";
+      console.log(`  ${label}  (${outcome})`);
+      console.log(`    ours    ${c.ours.updatedAt}  ${c.ours.summary}`);
+      console.log(`    bundle  ${c.theirs.updatedAt}  ${c.theirs.summary}`);
+    }
+    if (pending.length > 0) {
+      console.log(`\nNothing was overwritten. Decide per card, then re-import with --strategy ours|theirs|newest,`);
+      console.log(`or re-save the card yourself with repoctx save / save-symbol.`);
+    }
+  });
+
+// ── repoctx merge-driver ──────────────────────────────────────────────────────
+program
+  .command("merge-driver")
+  .description("git merge driver for a committed .repoctx/; --install registers it and adds .gitattributes entries")
+  .argument("[base]", "Common ancestor version (%O)")
+  .argument("[ours]", "Our version, overwritten with the result (%A)")
+  .argument("[theirs]", "Their version (%B)")
+  .argument("[path]", "Path of the file in the repo (%P)")
+  .option("--install", "Register the driver in .git/config and route .repoctx/ files to it in .gitattributes")
+  .action(async (base: string | undefined, ours: string | undefined, theirs: string | undefined, repoPath: string | undefined, opts) => {
+    if (opts.install) {
+      const { attributesFile, added } = await installMergeDriver();
+      console.log("✓ Registered merge driver \"repoctx\" in .git/config");
+      const where = path.relative(process.cwd(), attributesFile) || attributesFile;
+      console.log(added.length > 0 ? `✓ Added ${added.length} line(s) to ${where}` : `✓ ${where} already routes .repoctx/ to it`);
+      return;
+    }
+    if (!base || !ours || !theirs || !repoPath) {
+      console.error("Usage: repoctx merge-driver %O %A %B %P (or --install)");
+      process.exit(1);
+    }
+    try {
+      await runMergeDriver(base, ours, theirs, repoPath);
+    } catch (e) {
+      console.error(`repoctx merge-driver: ${(e as Error).message}`);
+      process.exit(1); // git leaves the file conflicted
+    }
+  });
+
 // ── repoctx init ──────────────────────────────────────────────────────────────
 program
   .command("init")
-  .description("Initialize repoctx in the current repo: creates .repoctx/ and adds it to .gitignore")
-  .action(async () => {
-    await fs.mkdir(repoctxDir(), { recursive: true });
+  .description("Initialize repoctx at the repo root (git top level): creates .repoctx/ and adds it to .gitignore")
+  .option("--workspace <name>", "Give this npm/pnpm workspace its own .repoctx/ instead; root queries merge it in")
+  .action(async (opts) => {
+    const dir = opts.workspace !== undefined ? workspaceRoot(await findWorkspace(opts.workspace)) : repoRoot();
+    await fs.mkdir(path.join(dir, ".repoctx"), { recursive: true });
+    if (opts.workspace !== undefined) console.log(`✓ Created ${path.relative(repoRoot(), dir)}/.repoctx`);
 
-    // Add .repoctx to .gitignore if not already there
-    const gitignorePath = path.join(process.cwd(), ".gitignore");
+    // Add .repoctx to .gitignore if not already there (the pattern covers workspace stores too)
+    const gitignorePath = path.join(repoRoot(), ".gitignore");
     let alreadyIgnored = false;
     try {
       const content = await fs.readFile(gitignorePath, "utf8");
@@ -164,7 +624,60 @@ program
       console.log("✓ .repoctx already in .gitignore");
     }
 
-    console.log("✓ repoctx initialized. Run `repoctx onboarding` to get CLAUDE.md instructions.");
+    console.log("✓ repoctx initialized. Run `repoctx scan` to draft cards from the code, and `repoctx onboarding` to get CLAUDE.md instructions.");
+  });
+
+// ── repoctx scan ──────────────────────────────────────────────────────────────
+program
+  .command("scan")
+  .description("Draft module cards (exports, file comment, imports, directory keywords) and symbol cards (JSDoc'd exported functions) from source, without an LLM")
+  .argument("[glob]", "Only files matching this glob or under this directory (default: all source files)")
+  .option("--dry-run", "Show what would be drafted without changing anything")
+  .action(async (glob: string | undefined, opts) => {
+    const report = await scanRepo({ ...(glob !== undefined && { glob }), dryRun: !!opts.dryRun });
+    if (report.files === 0) {
+      console.log(`No source files${glob ? ` match ${glob}` : ""}.`);
+      return;
+    }
+    const verb = report.dryRun ? "Would draft" : "✓ Drafted";
+    for (const [label, c] of [["module", report.modules], ["symbol", report.symbols]] as const) {
+      const parts = [`${c.created.length} new`, `${c.updated.length} refreshed`, `${c.unchanged} unchanged`];
+      if (c.kept > 0) parts.push(`${c.kept} kept (an existing card has it)`);
+      console.log(`${verb} ${label} cards: ${parts.join(", ")}`);
+    }
+    if (!report.dryRun && report.modules.created.length + report.modules.updated.length > 0) {
+      console.log("Drafts show as unverified in repoctx get until someone re-saves them with repoctx save.");
+    }
+  });
+
+// ── repoctx config ────────────────────────────────────────────────────────────
+const config = program
+  .command("config")
+  .description("Read or change the project config (repoctx.config.json at the root, else .repoctx/config.json)");
+
+config
+  .command("get")
+  .description("Print the whole config, or one key (dotted, e.g. keywords.vocabulary)")
+  .argument("[key]", "Dotted key")
+  .action(async (key: string | undefined) => {
+    const value = await getConfigValue(key);
+    if (value === undefined) {
+      if (!key) return console.log("{}");
+      console.error(`${key} is not set`);
+      process.exit(1);
+    }
+    console.log(typeof value === "string" ? value : JSON.stringify(value, null, 2));
+  });
+
+config
+  .command("set")
+  .description("Set a key. Values are JSON (lists may also be comma-separated); null removes the key")
+  .argument("<key>", "Dotted key, e.g. exclude, keywords.byPath.src/payments/**, output.format")
+  .argument("<value>", "e.g. '[\"dist/**\"]', \"payments,billing\", markdown, 800, null")
+  .action(async (key: string, value: string) => {
+    const { file, value: parsed } = await setConfigValue(key, value);
+    const where = path.relative(process.cwd(), file) || file;
+    console.log(parsed === null ? `✓ Removed ${key} from ${where}` : `✓ Set ${key} = ${JSON.stringify(parsed)} in ${where}`);
   });
 
 // ── repoctx onboarding ────────────────────────────────────────────────────────
@@ -175,6 +688,14 @@ program
     process.stdout.write(getOnboardingText() + "\n");
   });
 
+// ── repoctx mcp ───────────────────────────────────────────────────────────────
+program
+  .command("mcp")
+  .description("Run a Model Context Protocol server over stdio exposing repoctx tools and cards")
+  .action(async () => {
+    await runMcpServer();
+  });
+
 program.parseAsync(process.argv).catch((e) => {
   console.error(e?.message ?? e);
   process.exit(1);
@@ -0,0 +1,74 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ExportEntry } from "./cache.js";
+import { typescript } from "./typescript.js";
+import { python } from "./python.js";
+import { go } from "./golang.js";
+
+// ── Language adapters ─────────────────────────────────────────────────────────
+// Everything repoctx understands about code goes through the adapter for the
+// file's extension: what its public symbols are (mapped onto ExportEntry
+// kinds, so contract detection reads the same in every language), what it
+// imports, and where a name is used. Files without an adapter can still be
+// carded; they just get no extracted exports.
+
+export type DeclarationRange = {
+  name: string;                 // `Class.method` for class members and Go methods
+  kind: ExportEntry["kind"];
+  startLine: number;            // 1-based, leading doc comment or decorators included
+  endLine: number;
+};
+
+export type Usage = { line: number; text: string }; // 1-based line, trimmed
+
+/** Repo-relative paths of the local files `relPath` imports (anything outside the repo is dropped by the caller) */
+export type ImportResolver = (relPath: string, source: string) => string[];
+
+export type LanguageAdapter = {
+  name: string;
+  extensions: string[];
+  /** Public symbols: exports, non-underscore top-level names or `__all__`, capitalized identifiers */
+  extractExports(source: string, fileName: string): ExportEntry[];
+  /** Top-level declarations and members with the lines they span, public or not */
+  declarationRanges(source: string, fileName: string): DeclarationRange[];
+  /** External packages a file imports, for a card's dependencies */
+  packageImports(source: string, fileName: string): string[];
+  /** One resolver per module-graph build, so it can cache what it looks up */
+  createResolver(): ImportResolver;
+  /** Lines referencing `name`, leaving out imports and the declaration itself */
+  findUsages(source: string, fileName: string, name: string): Usage[];
+  /** Files in one directory share a namespace and use each other's names without importing (Go packages) */
+  directoryScoped?: boolean;
+};
+
+const ADAPTERS: LanguageAdapter[] = [typescript, python, go];
+
+/** Every extension some adapter handles; the default for the config's `extensions` */
+export const SOURCE_EXTENSIONS = ADAPTERS.flatMap((a) => a.extensions);
+
+export function adapterFor(file: string): LanguageAdapter | null {
+  const ext = path.extname(file).toLowerCase();
+  return ADAPTERS.find((a) => a.extensions.includes(ext)) ?? null;
+}
+
+export function canExtractExports(file: string): boolean {
+  return adapterFor(file) !== null;
+}
+
+export function extractExports(source: string, fileName: string): ExportEntry[] {
+  const adapter = adapterFor(fileName);
+  if (!adapter) throw new Error(`No language adapter for ${fileName}`);
+  return adapter.extractExports(source, fileName);
+}
+
+/** Returns null when the file type isn't supported (caller falls back to manual symbols) */
+export async function extractExportsFromFile(absPath: string): Promise<ExportEntry[] | null> {
+  const adapter = adapterFor(absPath);
+  if (!adapter) return null;
+  const source = await fs.readFile(absPath, "utf8");
+  return adapter.extractExports(source, absPath);
+}
+
+export function declarationRanges(source: string, fileName: string): DeclarationRange[] {
+  return adapterFor(fileName)?.declarationRanges(source, fileName) ?? [];
+}
@@ -0,0 +1,125 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import crypto from "node:crypto";
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// ── Atomic writes ─────────────────────────────────────────────────────────────
+
+/** Write to a temp file next to the target, then rename over it: readers see old or new, never half */
+export async function writeFileAtomic(file: string, data: string) {
+  const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+  try {
+    const handle = await fs.open(tmp, "w");
+    try {
+      await handle.writeFile(data, "utf8");
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tmp, file);
+  } catch (e) {
+    await fs.rm(tmp, { force: true });
+    throw e;
+  }
+}
+
+// ── Cross-process lock ────────────────────────────────────────────────────────
+// A lock file created with O_EXCL. Several agent sessions (separate processes)
+// save into the same .repoctx/ at once; every read-modify-write of an index
+// runs under this lock. Nested calls in the same async chain reuse the held lock.
+// A holder on this host keeps its lock for as long as its process lives; one on
+// another host (a shared filesystem) keeps the lock file's mtime fresh instead.
+
+const LOCK_TIMEOUT_MS = 15_000;
+const LOCK_STALE_MS = 30_000; // no heartbeat for this long: the holder on another host is gone
+const HEARTBEAT_MS = LOCK_STALE_MS / 3;
+const RETRY_MIN_MS = 5;
+const RETRY_MAX_MS = 100;
+
+type LockOwner = { pid: number; host: string; at: string };
+
+const held = new AsyncLocalStorage<string[]>(); // lock files held by the current async chain
+const queues = new Map<string, Promise<unknown>>(); // per lock file: serializes its users within this process
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** True when the lock file's holder is a dead process on this host, or went LOCK_STALE_MS without a heartbeat */
+async function isStale(lockFile: string): Promise<boolean> {
+  let raw: string;
+  let mtimeMs: number;
+  try {
+    [raw, { mtimeMs }] = await Promise.all([fs.readFile(lockFile, "utf8"), fs.stat(lockFile)]);
+  } catch {
+    return false; // gone already
+  }
+  let owner: LockOwner | null = null;
+  try {
+    owner = JSON.parse(raw);
+  } catch {
+    // Caught between create and write, or the writer died there: only the age can tell
+  }
+  if (owner?.host === os.hostname()) return !isAlive(owner.pid);
+  return Date.now() - mtimeMs > LOCK_STALE_MS;
+}
+
+async function acquire(lockFile: string) {
+  const owner: LockOwner = { pid: process.pid, host: os.hostname(), at: new Date().toISOString() };
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let wait = RETRY_MIN_MS;
+
+  for (;;) {
+    try {
+      await fs.writeFile(lockFile, JSON.stringify(owner), { encoding: "utf8", flag: "wx" });
+      return;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    }
+    if (await isStale(lockFile)) {
+      await fs.rm(lockFile, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      const holder = await fs.readFile(lockFile, "utf8").catch(() => "unknown holder");
+      throw new Error(`Timed out waiting for ${lockFile} (held by ${holder}). Remove it if no repoctx process is running.`);
+    }
+    await new Promise((r) => setTimeout(r, wait + Math.random() * wait));
+    wait = Math.min(wait * 2, RETRY_MAX_MS);
+  }
+}
+
+/** Run `fn` while holding `<dir>/lock`, exclusive across processes */
+export async function withLock<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+  const lockFile = path.join(dir, "lock");
+  const holding = held.getStore() ?? [];
+  if (holding.includes(lockFile)) return fn();
+
+  const run = (queues.get(lockFile) ?? Promise.resolve()).then(async () => {
+    await fs.mkdir(dir, { recursive: true });
+    await acquire(lockFile);
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.utimes(lockFile, now, now).catch(() => {});
+    }, HEARTBEAT_MS);
+    heartbeat.unref();
+    try {
+      return await held.run([...holding, lockFile], fn);
+    } finally {
+      clearInterval(heartbeat);
+      await fs.rm(lockFile, { force: true });
+    }
+  });
+  const tail = run.catch(() => {});
+  queues.set(lockFile, tail);
+  tail.then(() => {
+    if (queues.get(lockFile) === tail) queues.delete(lockFile);
+  });
+  return run;
+}
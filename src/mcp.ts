@@ -0,0 +1,499 @@
+import readline from "node:readline";
+import { saveManual } from "./save.js";
+import { saveSymbol } from "./saveSymbol.js";
+import { getContext, getStale } from "./get.js";
+import { saveCheckpoint } from "./checkpoint.js";
+import { runDiff } from "./diff.js";
+import { showAt } from "./history.js";
+import { searchContext } from "./search.js";
+import { findUsages } from "./usages.js";
+import { keywordWarning } from "./config.js";
+import { renderResult, parseOutputFormat, OUTPUT_FORMATS } from "./render.js";
+import {
+  loadIndex,
+  loadFileCache,
+  loadSymbolsIndex,
+  loadSymbolCard,
+  type ExportEntry,
+  type SymbolRelation,
+} from "./cache.js";
+
+// Minimal Model Context Protocol server: newline-delimited JSON-RPC 2.0 over stdio.
+// Only the tools and resources capabilities are implemented.
+
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const SERVER_INFO = { name: "repoctx", version: "0.1.4" };
+
+type JsonRpcId = string | number | null;
+
+type JsonRpcRequest = {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method: string;
+  params?: unknown;
+};
+
+class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const PARSE_ERROR = -32700;
+
+// ── Tool definitions ─────────────────────────────────────────────────────────
+// Input schemas mirror the option objects accepted by the underlying functions.
+// Arguments are checked against them before a tool runs (see checkValue), so
+// each run() can take its arguments at the declared type.
+
+type Schema = {
+  type?: "object" | "array" | "string" | "integer" | "boolean";
+  enum?: readonly string[];
+  minimum?: number;
+  items?: Schema;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  description?: string;
+};
+
+const stringList: Schema = { type: "array", items: { type: "string" } };
+const symbolKind: Schema = { type: "string", enum: ["function", "class", "constant", "type", "enum", "namespace", "other"] };
+const outputFormat: Schema = { type: "string", enum: [...OUTPUT_FORMATS], description: "Output format (default text)" };
+
+type ToolDef = {
+  name: string;
+  description: string;
+  inputSchema: Schema;
+  run: (args: unknown) => Promise<string>;
+};
+
+/** `run` sees arguments already validated against `inputSchema`, typed as `A` */
+function tool<A>(def: Omit<ToolDef, "run"> & { run: (args: A) => Promise<string> }): ToolDef {
+  return { ...def, run: (args) => def.run(args as A) };
+}
+
+const tools: ToolDef[] = [
+  tool<{
+    filterPath?: string;
+    keywordQuery?: string;
+    symbol?: string;
+    depth?: number;
+    importers?: boolean;
+    workspace?: string;
+    budget?: number;
+    format?: string;
+  }>({
+    name: "getContext",
+    description: "Read saved module and symbol cards. Prefer a keywordQuery over an unfiltered call.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        filterPath: { type: "string", description: "Only cards at or under this path" },
+        keywordQuery: {
+          type: "string",
+          description: "Keyword query: a,b = OR, a+b = AND, -a = NOT, (a|b)+c = grouping",
+        },
+        symbol: { type: "string", description: "Look up a single symbol card by name" },
+        depth: { type: "integer", minimum: 1, description: "With symbol: follow related cards N hops, both directions" },
+        importers: { type: "boolean", description: "Resolve each module's imports and the files that import it" },
+        workspace: { type: "string", description: "Only this npm/pnpm workspace (package name or directory)" },
+        budget: { type: "integer", minimum: 1, description: "Cap output at ~N tokens" },
+        format: outputFormat,
+      },
+    },
+    run: async (args) => {
+      const result = await getContext({
+        ...(args.filterPath !== undefined && { filterPath: args.filterPath }),
+        ...(args.keywordQuery !== undefined && { keywordQuery: args.keywordQuery }),
+        ...(args.symbol !== undefined && { symbol: args.symbol }),
+        ...(args.depth !== undefined && { depth: args.depth }),
+        ...(args.importers !== undefined && { importers: !!args.importers }),
+        ...(args.workspace !== undefined && { workspace: args.workspace }),
+        ...(args.budget !== undefined && { budget: args.budget }),
+      });
+      return renderResult(result, parseOutputFormat(args.format));
+    },
+  }),
+  tool<{ query: string; limit?: number }>({
+    name: "search",
+    description: "Ranked full-text search over module summaries, footguns, deltas and symbol cards.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Free text query" },
+        limit: { type: "integer", minimum: 1, description: "Maximum number of results (default 10)" },
+      },
+      required: ["query"],
+    },
+    run: async (args) => JSON.stringify(
+      await searchContext(args.query, args.limit !== undefined ? { limit: args.limit } : {}),
+      null,
+      2
+    ),
+  }),
+  tool<{ symbol: string; file?: string }>({
+    name: "findUsages",
+    description: "Find where a public symbol is used, by searching the files that import its file (TS/JS, Python and Go).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: { type: "string", description: "Symbol name, e.g. createCharge or Ledger.post" },
+        file: { type: "string", description: "File that declares it (default: its symbol card's file, or the one module card exporting it)" },
+      },
+      required: ["symbol"],
+    },
+    run: async (args) => JSON.stringify(
+      await findUsages(args.symbol, args.file !== undefined ? { file: args.file } : {}),
+      null,
+      2
+    ),
+  }),
+  tool<{
+    filePath: string;
+    summary: string;
+    symbols?: string[];
+    exports?: ExportEntry[];
+    keywords?: string[];
+    dependencies?: string[];
+    footguns?: string;
+    delta?: string;
+    meta?: boolean;
+  }>({
+    name: "saveManual",
+    description: "Save a module card for a file (or a virtual --meta entry). Always include keywords.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        filePath: { type: "string", description: "File path, or virtual key when meta is true" },
+        summary: { type: "string", description: "What this file does, its role, and conventions" },
+        symbols: { ...stringList, description: "Exported symbols/functions" },
+        exports: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { name: { type: "string" }, kind: symbolKind },
+            required: ["name", "kind"],
+          },
+        },
+        keywords: { ...stringList, description: "Tags used by keyword lookups" },
+        dependencies: { ...stringList, description: "Dependencies of this module" },
+        footguns: { type: "string", description: "Things that break if touched wrong" },
+        delta: { type: "string", description: "What changed in this save" },
+        meta: { type: "boolean", description: "Virtual entry, no real file" },
+      },
+      required: ["filePath", "summary"],
+    },
+    run: async (args) => {
+      const rel = await saveManual({
+        filePath: args.filePath,
+        summary: args.summary,
+        symbols: args.symbols ?? [],
+        keywords: args.keywords ?? [],
+        ...(args.exports !== undefined && { exports: args.exports }),
+        ...(args.dependencies !== undefined && { dependencies: args.dependencies }),
+        ...(args.footguns !== undefined && { footguns: args.footguns }),
+        ...(args.delta !== undefined && { delta: args.delta }),
+        meta: !!args.meta,
+      });
+      const warning = await keywordWarning(args.keywords ?? []);
+      return `✓ Saved context for ${rel}${warning ? `\n${warning}` : ""}`;
+    },
+  }),
+  tool<{
+    symbol: string;
+    purpose: string;
+    file: string;
+    kind?: ExportEntry["kind"];
+    signature?: string;
+    related?: SymbolRelation[];
+    keywords?: string[];
+  }>({
+    name: "saveSymbol",
+    description: "Save a symbol card for a specific function, class, or constant.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        symbol: { type: "string", description: "Symbol name" },
+        purpose: { type: "string", description: "One-line description of what this symbol does" },
+        file: { type: "string", description: "File where the symbol lives" },
+        kind: symbolKind,
+        signature: { type: "string" },
+        related: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { symbol: { type: "string" }, relation: { type: "string" } },
+            required: ["symbol", "relation"],
+          },
+        },
+        keywords: stringList,
+      },
+      required: ["symbol", "purpose", "file"],
+    },
+    run: async (args) => {
+      await saveSymbol({
+        symbol: args.symbol,
+        purpose: args.purpose,
+        file: args.file,
+        kind: args.kind ?? "function",
+        ...(args.signature !== undefined && { signature: args.signature }),
+        ...(args.related !== undefined && { related: args.related }),
+        ...(args.keywords !== undefined && { keywords: args.keywords }),
+      });
+      const warning = await keywordWarning(args.keywords ?? []);
+      return `✓ Saved symbol card for ${args.symbol}${warning ? `\n${warning}` : ""}`;
+    },
+  }),
+  tool<{ path?: string; symbol?: string; at: string; format?: string }>({
+    name: "showCardAt",
+    description: "A module or symbol card as it was at a git revision or date, to match code on an older branch.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Module path" },
+        symbol: { type: "string", description: "Symbol name, instead of a path" },
+        at: { type: "string", description: "Git revision (e.g. HEAD on the old branch) or date" },
+        format: outputFormat,
+      },
+      required: ["at"],
+    },
+    run: async (args) => {
+      const result = await showAt({
+        ...(args.path !== undefined && { path: args.path }),
+        ...(args.symbol !== undefined && { symbol: args.symbol }),
+        at: args.at,
+      });
+      return renderResult(result, parseOutputFormat(args.format));
+    },
+  }),
+  tool<{ contractOnly?: boolean; format?: string }>({
+    name: "getStale",
+    description: "List indexed files whose content changed since their last save, flagging public-surface changes.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        contractOnly: { type: "boolean", description: "Only files whose exports changed" },
+        format: { ...outputFormat, description: "Output format (default json)" },
+      },
+    },
+    run: async (args) => {
+      const contractOnly = !!args.contractOnly;
+      const entries = await getStale({ contractOnly });
+      return renderResult({ type: "stale", contractOnly, moves: [], entries }, parseOutputFormat(args.format ?? "json"));
+    },
+  }),
+  tool<{
+    from?: string;
+    to?: string;
+    mergeBase?: string;
+    top?: number;
+    hunks?: number;
+    budget?: number;
+    format?: string;
+  }>({
+    name: "runDiff",
+    description: "Show changes since the last checkpoint, or over any range (checkpoints, revisions, working tree).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        from: { type: "string", description: "Checkpoint name or git revision (default: last checkpoint)" },
+        to: { type: "string", description: "Checkpoint name, git revision, \"worktree\" or \"staged\" (default: HEAD)" },
+        mergeBase: { type: "string", description: "Diff from where HEAD forked off this branch" },
+        top: { type: "integer", minimum: 1, description: "Only the top N changed files" },
+        hunks: { type: "integer", minimum: 0, description: "Also include the first N raw hunks per file" },
+        budget: { type: "integer", minimum: 1, description: "Cap output at ~N tokens" },
+        format: outputFormat,
+      },
+    },
+    run: async (args) => {
+      const result = await runDiff({
+        ...(args.from !== undefined && { from: args.from }),
+        ...(args.to !== undefined && { to: args.to }),
+        ...(args.mergeBase !== undefined && { mergeBase: args.mergeBase }),
+        ...(args.top !== undefined && { top: args.top }),
+        ...(args.hunks !== undefined && { hunks: args.hunks }),
+        ...(args.budget !== undefined && { budget: args.budget }),
+      });
+      return renderResult(result, parseOutputFormat(args.format));
+    },
+  }),
+  tool<{ name?: string }>({
+    name: "saveCheckpoint",
+    description: "Save the current git HEAD as the baseline for future diffs.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Also keep it under this name, for runDiff from" },
+      },
+    },
+    run: async (args) => {
+      const cp = await saveCheckpoint({ ...(args.name !== undefined && { name: args.name }) });
+      const label = cp.name ? ` "${cp.name}"` : "";
+      return `✓ Checkpoint${label} saved: ${cp.branch} @ ${cp.head.slice(0, 7)} (${cp.at})`;
+    },
+  }),
+];
+
+// ── Resources ────────────────────────────────────────────────────────────────
+
+const MODULE_PREFIX = "repoctx://module/";
+const SYMBOL_PREFIX = "repoctx://symbol/";
+
+async function listResources() {
+  const idx = await loadIndex();
+  const symIdx = await loadSymbolsIndex();
+  return [
+    ...Object.keys(idx.files).map((p) => ({
+      uri: MODULE_PREFIX + encodeURIComponent(p),
+      name: p,
+      description: "Module card",
+      mimeType: "application/json",
+    })),
+    ...Object.keys(symIdx.symbols).map((s) => ({
+      uri: SYMBOL_PREFIX + encodeURIComponent(s),
+      name: s,
+      description: "Symbol card",
+      mimeType: "application/json",
+    })),
+  ];
+}
+
+async function readResource(uri: string) {
+  let card: object | null = null;
+  if (uri.startsWith(MODULE_PREFIX)) {
+    card = await loadFileCache(decodeURIComponent(uri.slice(MODULE_PREFIX.length)));
+  } else if (uri.startsWith(SYMBOL_PREFIX)) {
+    card = await loadSymbolCard(decodeURIComponent(uri.slice(SYMBOL_PREFIX.length)));
+  }
+  if (!card) throw new RpcError(INVALID_PARAMS, `Resource not found: ${uri}`);
+  return [{ uri, mimeType: "application/json", text: JSON.stringify(card, null, 2) }];
+}
+
+// ── Argument validation ──────────────────────────────────────────────────────
+// Covers the subset of JSON Schema the tool definitions above use.
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** The first way `value` breaks `schema`, or null when it fits */
+function checkValue(schema: Schema, value: unknown, at: string): string | null {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return `${at} must be a string`;
+      if (schema.enum && !schema.enum.includes(value)) return `${at} must be one of: ${schema.enum.join(", ")}`;
+      return null;
+    case "boolean":
+      return typeof value === "boolean" ? null : `${at} must be a boolean`;
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) return `${at} must be an integer`;
+      if (schema.minimum !== undefined && value < schema.minimum) return `${at} must be at least ${schema.minimum}`;
+      return null;
+    case "array":
+      if (!Array.isArray(value)) return `${at} must be an array`;
+      for (const [i, item] of value.entries()) {
+        const problem = schema.items ? checkValue(schema.items, item, `${at}[${i}]`) : null;
+        if (problem) return problem;
+      }
+      return null;
+    case "object": {
+      if (!isRecord(value)) return `${at} must be an object`;
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) return `${at}.${key} is required`;
+      }
+      for (const [key, child] of Object.entries(schema.properties ?? {})) {
+        const problem = value[key] === undefined ? null : checkValue(child, value[key], `${at}.${key}`);
+        if (problem) return problem;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+// ── Dispatch ─────────────────────────────────────────────────────────────────
+
+async function handle(method: string, rawParams: unknown): Promise<unknown> {
+  const params = isRecord(rawParams) ? rawParams : {};
+  switch (method) {
+    case "initialize": {
+      const requested = params.protocolVersion;
+      return {
+        protocolVersion: typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+          ? requested
+          : SUPPORTED_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: {}, resources: {} },
+        serverInfo: SERVER_INFO,
+      };
+    }
+    case "ping":
+      return {};
+    case "tools/list":
+      return {
+        tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })),
+      };
+    case "tools/call": {
+      const tool = tools.find((t) => t.name === params.name);
+      if (!tool) throw new RpcError(INVALID_PARAMS, `Unknown tool: ${params.name}`);
+      const args = params.arguments ?? {};
+      const problem = checkValue(tool.inputSchema, args, "arguments");
+      if (problem) throw new RpcError(INVALID_PARAMS, `Invalid params for ${tool.name}: ${problem}`);
+      // Tool failures are reported in-band so the model can see and react to them
+      try {
+        const text = await tool.run(args);
+        return { content: [{ type: "text", text }] };
+      } catch (e: any) {
+        return { content: [{ type: "text", text: `Error: ${e?.message ?? e}` }], isError: true };
+      }
+    }
+    case "resources/list":
+      return { resources: await listResources() };
+    case "resources/templates/list":
+      return { resourceTemplates: [] };
+    case "resources/read":
+      if (typeof params.uri !== "string") throw new RpcError(INVALID_PARAMS, "Missing uri");
+      return { contents: await readResource(params.uri) };
+    default:
+      throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+function send(message: object) {
+  process.stdout.write(JSON.stringify(message) + "\n");
+}
+
+async function onLine(line: string) {
+  if (!line.trim()) return;
+
+  let req: JsonRpcRequest;
+  try {
+    req = JSON.parse(line);
+  } catch {
+    send({ jsonrpc: "2.0", id: null, error: { code: PARSE_ERROR, message: "Parse error" } });
+    return;
+  }
+
+  // Notifications (no id) never get a response
+  const isNotification = req.id === undefined;
+  try {
+    const result = await handle(req.method, req.params);
+    if (!isNotification) send({ jsonrpc: "2.0", id: req.id, result });
+  } catch (e: any) {
+    if (isNotification) return;
+    const code = e instanceof RpcError ? e.code : -32603;
+    send({ jsonrpc: "2.0", id: req.id, error: { code, message: e?.message ?? String(e) } });
+  }
+}
+
+export async function runMcpServer() {
+  const rl = readline.createInterface({ input: process.stdin });
+  // Requests are handled one at a time so saves never race on index.json
+  let queue = Promise.resolve();
+  rl.on("line", (line) => {
+    queue = queue.then(() => onLine(line));
+  });
+  await new Promise<void>((resolve) => rl.on("close", resolve));
+  await queue;
+}
@@ -0,0 +1,223 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+import { STORE_VERSION, type RepoctxFileCache, type RepoctxIndex, type SymbolsIndex } from "./cache.js";
+import { normalizeKeyword } from "./query.js";
+
+// ── git merge driver ──────────────────────────────────────────────────────────
+// Registered for committed .repoctx/ stores. git calls it with the ancestor,
+// ours (where the result goes) and theirs versions of a conflicting file:
+//
+// - a card file: the side with the newer `updatedAt` wins, whole
+// - symbols-index.json: three-way merge of the name → ref map
+// - index.json: three-way merge of which paths have cards; each card's
+//   content is the newer of the two sides (read from HEAD and the other
+//   head), and the hashes and keyword index are rebuilt from those cards;
+//   the local search index is dropped, to be rebuilt on the next search
+//
+// History files are append-only JSONL and use git's built-in union driver.
+
+const DRIVER = "repoctx";
+
+const ATTRIBUTES = [
+  `**/.repoctx/index.json merge=${DRIVER}`,
+  `**/.repoctx/symbols-index.json merge=${DRIVER}`,
+  `**/.repoctx/files/*.json merge=${DRIVER}`,
+  `**/.repoctx/symbols/*.json merge=${DRIVER}`,
+  "**/.repoctx/history/*.jsonl merge=union",
+];
+
+// git runs merge drivers from the top of the work tree, so no cwd is needed
+function git(args: string[]): string {
+  return execFileSync("git", args, { encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] });
+}
+
+/** Register the driver in .git/config and route the store's files to it in .gitattributes */
+export async function installMergeDriver(): Promise<{ attributesFile: string; added: string[] }> {
+  const top = git(["rev-parse", "--show-toplevel"]).trim();
+  git(["config", `merge.${DRIVER}.name`, "repoctx context index merge"]);
+  git(["config", `merge.${DRIVER}.driver`, `repoctx merge-driver %O %A %B %P`]);
+
+  const attributesFile = path.join(top, ".gitattributes");
+  let existing = "";
+  try {
+    existing = await fs.readFile(attributesFile, "utf8");
+  } catch {
+    // none yet
+  }
+  const have = new Set(existing.split("\n").map((l) => l.trim()));
+  const added = ATTRIBUTES.filter((l) => !have.has(l));
+  if (added.length > 0) {
+    const sep = !existing ? "" : existing.endsWith("\n") ? "\n" : "\n\n";
+    await fs.appendFile(attributesFile, `${sep}# repoctx: merge the context index instead of conflicting\n${added.join("\n")}\n`);
+  }
+  return { attributesFile, added };
+}
+
+// ── Merging ───────────────────────────────────────────────────────────────────
+
+type Card = { updatedAt: string };
+
+function parse<T>(text: string): T | null {
+  if (!text.trim()) return null; // git passes an empty ancestor for files added on both sides
+  return JSON.parse(text);
+}
+
+function newer<T extends Card>(ours: T | null, theirs: T | null): T | null {
+  if (!ours || !theirs) return ours ?? theirs;
+  return theirs.updatedAt > ours.updatedAt ? theirs : ours;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Three-way merge of one map entry; an entry changed on both sides goes to `both` */
+function mergeEntry<T>(base: T | undefined, ours: T | undefined, theirs: T | undefined, both: () => T | undefined): T | undefined {
+  if (same(ours, theirs)) return ours;
+  if (same(ours, base)) return theirs;
+  if (same(theirs, base)) return ours;
+  return both();
+}
+
+/**
+ * The commit being merged in, for reading the other side's card files.
+ * `git merge` names it in a GITHEAD_<sha> variable (MERGE_HEAD isn't written
+ * until the merge stops); the *_HEAD refs cover a resumed cherry-pick or rebase.
+ */
+function otherHead(): string | null {
+  const heads = Object.keys(process.env).filter((k) => /^GITHEAD_[0-9a-f]{40,64}$/.test(k));
+  if (heads.length === 1) return heads[0]!.slice("GITHEAD_".length);
+  if (heads.length > 1) return null; // octopus: no single "theirs"
+  for (const ref of ["MERGE_HEAD", "CHERRY_PICK_HEAD", "REBASE_HEAD"]) {
+    try {
+      return git(["rev-parse", "--verify", "--quiet", ref]).trim() || null;
+    } catch {
+      // not in this kind of operation
+    }
+  }
+  return null;
+}
+
+/** Blobs `rev:path` for many paths in one `git cat-file --batch`; missing ones are null */
+function readBlobs(specs: string[]): (string | null)[] {
+  if (specs.length === 0) return [];
+  const out = Buffer.from(
+    execFileSync("git", ["cat-file", "--batch"], { input: specs.join("\n") + "\n", maxBuffer: 256 * 1024 * 1024 })
+  );
+  const blobs: (string | null)[] = [];
+  let pos = 0;
+  for (let i = 0; i < specs.length; i++) {
+    const eol = out.indexOf(0x0a, pos);
+    const header = out.subarray(pos, eol).toString("utf8");
+    pos = eol + 1;
+    if (header.endsWith(" missing") || header.endsWith(" ambiguous")) {
+      blobs.push(null);
+      continue;
+    }
+    const size = Number(header.split(" ")[2]);
+    blobs.push(out.subarray(pos, pos + size).toString("utf8"));
+    pos += size + 1; // content is followed by a newline
+  }
+  return blobs;
+}
+
+/** path → keywords, from an index's keywordIndex */
+function keywordsByPath(idx: RepoctxIndex | null): Map<string, Set<string>> {
+  const byPath = new Map<string, Set<string>>();
+  for (const [kw, paths] of Object.entries(idx?.keywordIndex ?? {})) {
+    for (const p of paths) {
+      if (!byPath.has(p)) byPath.set(p, new Set());
+      byPath.get(p)!.add(normalizeKeyword(kw));
+    }
+  }
+  return byPath;
+}
+
+function mergeIndex(base: RepoctxIndex | null, ours: RepoctxIndex, theirs: RepoctxIndex, storeDir: string): RepoctxIndex {
+  const keys = [...new Set([...Object.keys(ours.files), ...Object.keys(theirs.files)])];
+
+  // Which paths have cards: three-way, so a removal on one side sticks
+  const entries = new Map<string, RepoctxIndex["files"][string]>();
+  for (const k of keys) {
+    const entry = mergeEntry(base?.files[k], ours.files[k], theirs.files[k], () => ours.files[k] ?? theirs.files[k]);
+    if (entry) entries.set(k, entry);
+  }
+  const kept = [...entries.keys()];
+
+  // Card content: the newer side's, read from both commits in one go each
+  const other = otherHead();
+  const spec = (rev: string, k: string) => `${rev}:${storeDir ? `${storeDir}/` : ""}files/${entries.get(k)!.ref}`;
+  const oursBlobs = other ? readBlobs(kept.map((k) => spec("HEAD", k))) : [];
+  const theirsBlobs = other ? readBlobs(kept.map((k) => spec(other, k))) : [];
+
+  const merged: RepoctxIndex = {
+    version: Math.max(ours.version ?? 1, theirs.version ?? 1),
+    ...((ours.metaVersion ?? theirs.metaVersion) !== undefined && {
+      metaVersion: Math.max(ours.metaVersion ?? 0, theirs.metaVersion ?? 0),
+    }),
+    files: {},
+    keywordIndex: {},
+  };
+  const baseKw = keywordsByPath(base);
+  const oursKw = keywordsByPath(ours);
+  const theirsKw = keywordsByPath(theirs);
+  const tag = (kw: string, k: string) => (merged.keywordIndex[kw] ??= []).push(k);
+
+  for (const [i, k] of kept.entries()) {
+    const card = newer(parse<RepoctxFileCache>(oursBlobs[i] ?? ""), parse<RepoctxFileCache>(theirsBlobs[i] ?? ""));
+    if (card) {
+      merged.files[k] = { hash: card.hash, ref: entries.get(k)!.ref };
+      for (const kw of new Set((card.keywords ?? []).map(normalizeKeyword))) tag(kw, k);
+      continue;
+    }
+    // No other head to read (or the card file isn't committed): merge the index's own view of the card
+    merged.files[k] = entries.get(k)!;
+    const kws = new Set([...(oursKw.get(k) ?? []), ...(theirsKw.get(k) ?? [])]);
+    for (const kw of kws) {
+      const has = (m: Map<string, Set<string>>) => m.get(k)?.has(kw) ?? false;
+      if (mergeEntry(has(baseKw), has(oursKw), has(theirsKw), () => true)) tag(kw, k);
+    }
+  }
+  return merged;
+}
+
+function mergeSymbolsIndex(base: SymbolsIndex | null, ours: SymbolsIndex, theirs: SymbolsIndex): SymbolsIndex {
+  const merged: SymbolsIndex = { version: 1, symbols: {} };
+  for (const name of new Set([...Object.keys(ours.symbols), ...Object.keys(theirs.symbols)])) {
+    const ref = mergeEntry(base?.symbols[name], ours.symbols[name], theirs.symbols[name], () => ours.symbols[name] ?? theirs.symbols[name]);
+    if (ref !== undefined) merged.symbols[name] = ref;
+  }
+  return merged;
+}
+
+/**
+ * Merge `theirsFile` into `oursFile` (git's %A, which receives the result).
+ * `repoPath` (%P) says which store file this is. Throws when a side doesn't
+ * parse, which git reports as a conflict.
+ */
+export async function runMergeDriver(baseFile: string, oursFile: string, theirsFile: string, repoPath: string) {
+  const read = (f: string) => fs.readFile(f, "utf8").catch(() => "");
+  const [baseText, oursText, theirsText] = await Promise.all([read(baseFile), read(oursFile), read(theirsFile)]);
+  const name = path.posix.basename(repoPath);
+  const storeDir = path.posix.dirname(repoPath.replaceAll("\\", "/"));
+
+  let result: unknown;
+  if (name === "index.json") {
+    const ours = parse<RepoctxIndex>(oursText);
+    const theirs = parse<RepoctxIndex>(theirsText);
+    if (!ours || !theirs) throw new Error(`${repoPath}: one side is empty`);
+    if (Math.max(ours.version, theirs.version) > STORE_VERSION) throw new Error(`${repoPath}: written by a newer repoctx`);
+    result = mergeIndex(parse<RepoctxIndex>(baseText), ours, theirs, storeDir === "." ? "" : storeDir);
+    // The search index is derived and not committed; drop it so the next search rebuilds it with the merged cards
+    await fs.rm(path.join(storeDir, "search-index.json"), { force: true });
+  } else if (name === "symbols-index.json") {
+    const ours = parse<SymbolsIndex>(oursText);
+    const theirs = parse<SymbolsIndex>(theirsText);
+    if (!ours || !theirs) throw new Error(`${repoPath}: one side is empty`);
+    result = mergeSymbolsIndex(parse<SymbolsIndex>(baseText), ours, theirs);
+  } else {
+    result = newer(parse<Card>(oursText), parse<Card>(theirsText));
+  }
+  await fs.writeFile(oursFile, JSON.stringify(result, null, 2));
+}
@@ -0,0 +1,173 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import {
+  STORE_VERSION,
+  storeLayout,
+  loadIndex,
+  saveIndex,
+  loadAllSymbols,
+  saveSymbolCard,
+  normalizeRepoPath,
+  withStoreLock,
+  loadFileCaches,
+  saveFileCache,
+  fromRepoPath,
+  computeExportSurfaceHash,
+  type ExportEntry,
+  type RepoctxFileCache,
+} from "./cache.js";
+import { extractExportsFromFile } from "./languages.js";
+import { normalizeKeyword } from "./query.js";
+
+// ── Store migrations ──────────────────────────────────────────────────────────
+// index.json `version` is the store format. Each migration upgrades a store
+// from `to - 1` to `to` and must be idempotent: doctor --fix re-runs them over
+// a rebuilt index whose version it couldn't read. Add new ones at the end and
+// bump STORE_VERSION in cache.ts.
+
+type Migration = {
+  to: number;
+  description: string;
+  up(): Promise<void>;
+};
+
+/**
+ * Kinds the extractors used to report for declarations that now have their own:
+ * TS enums and namespaces were "other", Python Enum subclasses were "class".
+ */
+const RENAMED_KINDS: Partial<Record<ExportEntry["kind"], ExportEntry["kind"][]>> = {
+  enum: ["other", "class"],
+  namespace: ["other"],
+};
+
+/**
+ * A card's exports under the current kinds, with its surface hash recomputed to
+ * match, or null when it needs no change. Only the entries the stored hash was
+ * computed from (extracted ones come first; hand-given ones were appended) are
+ * relabeled, and only to the kind the file's declaration of that name has now.
+ */
+async function relabelKinds(card: RepoctxFileCache): Promise<RepoctxFileCache | null> {
+  const exports = card.exports ?? [];
+  if (!card.publicSurfaceHash || exports.length === 0) return null;
+  let extractedCount = exports.length;
+  while (extractedCount >= 0 && computeExportSurfaceHash(exports.slice(0, extractedCount)) !== card.publicSurfaceHash) {
+    extractedCount--;
+  }
+  if (extractedCount <= 0) return null;
+
+  let current: ExportEntry[] | null;
+  try {
+    current = await extractExportsFromFile(fromRepoPath(card.path));
+  } catch {
+    current = null;
+  }
+  if (!current) return null;
+  const now = new Map(current.map((e) => [e.name, e.kind]));
+
+  let changed = false;
+  const relabeled = exports.map((e, i): ExportEntry => {
+    const kind = now.get(e.name);
+    if (i >= extractedCount || !kind || !RENAMED_KINDS[kind]?.includes(e.kind)) return e;
+    changed = true;
+    return { name: e.name, kind };
+  });
+  if (!changed) return null;
+  return {
+    ...card,
+    exports: relabeled,
+    publicSurfaceHash: computeExportSurfaceHash(relabeled.slice(0, extractedCount)),
+  };
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    description: "normalize keyword index keys and store symbol card files relative to the repo root",
+    async up() {
+      const idx = await loadIndex();
+      // Indexes from before keywordIndex existed, or with keys saved before normalization (`DAL` next to `dal`)
+      const keywordIndex: Record<string, string[]> = {};
+      for (const [kw, paths] of Object.entries(idx.keywordIndex ?? {})) {
+        const norm = normalizeKeyword(kw);
+        keywordIndex[norm] = [...new Set([...(keywordIndex[norm] ?? []), ...paths])];
+      }
+      await saveIndex({ ...idx, keywordIndex });
+
+      // "./src/x.ts" or absolute paths from before root discovery
+      for (const card of await loadAllSymbols()) {
+        const file = normalizeRepoPath(card.file);
+        if (file !== card.file) await saveSymbolCard({ ...card, file }, { history: false });
+      }
+    },
+  },
+  {
+    to: 3,
+    description: "relabel enum and namespace exports with their own kinds and recompute surface hashes",
+    async up() {
+      for (const card of await loadFileCaches()) {
+        if (card.hash === "meta") continue;
+        const updated = await relabelKinds(card);
+        if (updated) await saveFileCache(card.path, updated, { history: false });
+      }
+    },
+  },
+];
+
+/** Format of the store on disk; null when there's no index yet (nothing to migrate) or it can't be read */
+async function storeVersion(): Promise<number | null> {
+  try {
+    const raw = JSON.parse(await fs.readFile(storeLayout().index, "utf8"));
+    return typeof raw?.version === "number" ? raw.version : 1;
+  } catch {
+    return null; // missing, or corrupt — doctor reports that
+  }
+}
+
+export function pendingMigrations(version: number): Migration[] {
+  return MIGRATIONS.filter((m) => m.to > version && m.to <= STORE_VERSION);
+}
+
+export type MigrationReport = {
+  from: number;
+  to: number;
+  applied: string[]; // descriptions
+  backup: string;    // relative to the repo root's .repoctx/
+};
+
+/** Copy the card and index files aside before touching them */
+async function backupStore(from: number): Promise<string> {
+  const layout = storeLayout();
+  const name = path.join("backups", `format-${from}-${new Date().toISOString().replace(/[:.]/g, "-")}`);
+  const dest = path.join(layout.dir, name);
+  await fs.mkdir(dest, { recursive: true });
+  for (const src of [layout.index, layout.symbolsIndex, layout.files, layout.symbols]) {
+    await fs.cp(src, path.join(dest, path.basename(src)), { recursive: true }).catch(() => {});
+  }
+  return name;
+}
+
+/**
+ * Bring the store up to STORE_VERSION, one migration at a time, recording the
+ * version after each so an interrupted upgrade resumes where it stopped.
+ * `from` overrides the version on disk (doctor --fix, after rebuilding an
+ * unreadable index). Returns null when there was nothing to do.
+ */
+export async function migrateStore({ from }: { from?: number } = {}): Promise<MigrationReport | null> {
+  // Checked before locking too: taking the lock would create .repoctx/ where there is none
+  const onDisk = from ?? await storeVersion();
+  if (onDisk === null || pendingMigrations(onDisk).length === 0) return null;
+
+  return withStoreLock(async () => {
+    const version = from ?? await storeVersion();
+    if (version === null) return null;
+    const pending = pendingMigrations(version);
+    if (pending.length === 0) return null;
+
+    const backup = await backupStore(version);
+    for (const m of pending) {
+      await m.up();
+      await saveIndex({ ...(await loadIndex()), version: m.to });
+    }
+    return { from: version, to: STORE_VERSION, applied: pending.map((m) => m.description), backup };
+  });
+}
@@ -0,0 +1,159 @@
+import fs from "node:fs/promises";
+import { execSync } from "node:child_process";
+import {
+  loadIndex,
+  loadFileCaches,
+  moveFileCache,
+  loadAllSymbols,
+  saveSymbolCard,
+  cachedFileHash,
+  flushStatCache,
+  repoRoot,
+  toRepoPath,
+  fromRepoPath,
+  normalizeRepoPath,
+} from "./cache.js";
+
+export type Move = {
+  from: string;
+  to: string;
+  via: "git" | "hash";
+};
+
+function git(args: string, input?: string): string {
+  try {
+    return execSync(`git -c core.quotepath=off ${args}`, {
+      cwd: repoRoot(),
+      encoding: "utf8",
+      stdio: [input === undefined ? "ignore" : "pipe", "pipe", "ignore"],
+      ...(input !== undefined && { input }),
+    });
+  } catch {
+    return "";
+  }
+}
+
+async function exists(rel: string): Promise<boolean> {
+  try {
+    await fs.access(fromRepoPath(rel));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The commit every card was saved at descends from: renames are detected from
+ * there in one pass. Saved HEADs git no longer knows (rewritten history) are
+ * left out, and HEAD stands in when none is known.
+ */
+function commonBase(bases: string[]): string {
+  const unique = [...new Set(bases)];
+  const known = git("cat-file '--batch-check=%(objectname)'", unique.map((b) => `${b}^{commit}`).join("\n") + "\n")
+    .split("\n")
+    .filter((line) => /^[0-9a-f]{40,64}$/.test(line));
+  if (known.length === 0) return "HEAD";
+  if (known.length === 1) return known[0]!;
+  return git(`merge-base --octopus ${known.join(" ")}`).trim() || "HEAD";
+}
+
+/**
+ * What changed between `base` and the working tree, from a single `git diff`:
+ * old → new renames per git's rename detection, plus the files that could be
+ * the new home of a moved card (added, renamed to, or untracked).
+ */
+function changesSince(base: string): { renames: Map<string, string>; newFiles: string[] } {
+  const renames = new Map<string, string>();
+  const newFiles = git("ls-files --others --exclude-standard").split("\n").filter(Boolean);
+  for (const line of git(`diff -M --relative --name-status ${base}`).split("\n")) {
+    const [status, from, to] = line.split("\t");
+    if (status?.startsWith("R") && from && to) {
+      renames.set(from, to);
+      newFiles.push(to);
+    } else if (status === "A" && from) {
+      newFiles.push(from);
+    }
+  }
+  return { renames, newFiles };
+}
+
+// ── Detection ─────────────────────────────────────────────────────────────────
+
+/**
+ * For every card whose file no longer exists, look for where it went: first
+ * via git rename detection since the oldest HEAD any of them was saved at, then
+ * by matching the saved content hash against new/untracked files.
+ */
+export async function detectMoves(): Promise<Move[]> {
+  const idx = await loadIndex();
+  const moves: Move[] = [];
+  const claimed = new Set<string>();
+
+  const missing: { path: string; hash: string; base: string }[] = [];
+  for (const cache of await loadFileCaches(undefined, idx)) {
+    if (cache.hash === "meta") continue;
+    if (await exists(cache.path)) continue;
+    missing.push({ path: cache.path, hash: cache.hash, base: cache.repoHeadAtSave ?? "HEAD" });
+  }
+  if (missing.length === 0) return moves;
+
+  const { renames, newFiles } = changesSince(commonBase(missing.map((m) => m.base)));
+  let candidateHashes: Map<string, string> | null = null; // path → content hash, read on first need
+
+  for (const m of missing) {
+    const to = renames.get(m.path);
+    if (to && !idx.files[to] && !claimed.has(to) && await exists(to)) {
+      moves.push({ from: m.path, to, via: "git" });
+      claimed.add(to);
+      continue;
+    }
+
+    if (!candidateHashes) {
+      candidateHashes = new Map();
+      for (const f of newFiles) {
+        if (candidateHashes.has(f) || idx.files[f]) continue;
+        try {
+          candidateHashes.set(f, await cachedFileHash(f));
+        } catch {
+          // deleted or unreadable — not a candidate
+        }
+      }
+    }
+    for (const [f, h] of candidateHashes) {
+      if (h === m.hash && !claimed.has(f)) {
+        moves.push({ from: m.path, to: f, via: "hash" });
+        claimed.add(f);
+        break;
+      }
+    }
+  }
+
+  await flushStatCache();
+  return moves;
+}
+
+// ── Applying a move ───────────────────────────────────────────────────────────
+
+/** Move a module card and repoint any symbol cards that live in that file */
+export async function moveCard(fromPath: string, toPath: string): Promise<{ moved: boolean; symbols: string[] }> {
+  const from = toRepoPath(fromPath);
+  const to = toRepoPath(toPath);
+
+  const idx = await loadIndex();
+  if (idx.files[to]) throw new Error(`A card already exists for ${to}`);
+
+  const moved = await moveFileCache(from, to);
+
+  const symbols: string[] = [];
+  for (const card of await loadAllSymbols()) {
+    if (normalizeRepoPath(card.file) !== from) continue;
+    await saveSymbolCard({ ...card, file: to });
+    symbols.push(card.symbol);
+  }
+
+  return { moved, symbols };
+}
+
+export async function applyMoves(moves: Move[]): Promise<void> {
+  for (const m of moves) await moveCard(m.from, m.to);
+}
@@ -15,6 +15,7 @@ structured facts instead of memory.
 \`\`\`bash
 repoctx get --keyword <topic>   # targeted: only what you need
 repoctx diff --top 8            # what changed since the last checkpoint
+repoctx diff --to worktree      # ... including uncommitted and untracked work
 \`\`\`
 
 If both return empty, the index hasn't been populated yet — proceed normally
@@ -22,7 +23,9 @@ and run \`repoctx save\` after your first meaningful change.
 
 Prefer \`--keyword\` over a bare \`repoctx get\` (which dumps everything).
 Use keywords to fetch only the modules relevant to the current task.
-This keeps context small and responses fast.
+This keeps context small and responses fast. Add \`--budget <tokens>\` to
+\`get\` or \`diff\` to hard-cap the output; the footer tells you what was
+left out and how to fetch it.
 
 ## Targeted lookups — use these instead of reading source files
 
@@ -31,11 +34,14 @@ repoctx get --keyword dal,users       # modules related to a topic
 repoctx get --keyword auth            # modules in the auth domain
 repoctx get --symbol deleteUser       # look up a specific function
 repoctx get src/users/                # everything indexed under a path
+repoctx search "soft delete user"     # free text, when you don't know the tag
+repoctx usages deleteUser            # where a public symbol is used, before changing it
 \`\`\`
 
-Keywords are OR-filtered: \`--keyword dal,charge\` returns anything tagged
-with "dal" OR "charge". Each module and symbol has its own keyword list —
-use them to navigate without reading files.
+\`--keyword dal,charge\` returns anything tagged "dal" OR "charge". Narrow
+with AND (\`payments+dal\`), NOT (\`"payments -legacy"\`) and grouping
+(\`"(auth|session)+http"\`). Each module and symbol has its own keyword
+list — use them to navigate without reading files.
 
 ## Speed note
 
@@ -104,6 +110,10 @@ If \`repoctx get\` shows \`⚠ Context outdated\` for a file, read it and
 run \`repoctx save\` with an updated summary before working on it.
 Refresh only the stale file — do not re-index the whole repo.
 
+\`repoctx stale --contract-only\` lists only files whose exports changed —
+those are the ones that need a \`repoctx save\`. "Implementation only"
+entries can be skipped unless behavior changed.
+
 ## Output discipline
 
 - Always try \`repoctx get --keyword <topic>\` before reaching for Read.
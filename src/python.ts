@@ -0,0 +1,285 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fromRepoPath, type ExportEntry } from "./cache.js";
+import type { DeclarationRange, LanguageAdapter, Usage } from "./languages.js";
+
+// ── Python ────────────────────────────────────────────────────────────────────
+// No parser dependency: a small scanner drops comments, blanks string contents
+// and joins bracketed or backslash-continued lines into logical statements,
+// which is enough to read definitions, imports and name references.
+
+type Statement = {
+  line: number;    // 1-based first line
+  endLine: number; // last physical line, continuations included
+  indent: number;
+  code: string;    // continuation lines joined, comments dropped, string contents blanked
+};
+
+type Scanned = { statements: Statement[]; code: string[] }; // code: per physical line
+
+function scan(source: string): Scanned {
+  const code: string[] = [];
+  const statements: Statement[] = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let current: Statement | null = null;
+
+  source.split("\n").forEach((text, i) => {
+    const continues = quote !== null || depth > 0 || !!current?.code.endsWith("\\");
+    let out = "";
+    for (let j = 0; j < text.length; j++) {
+      const c = text[j]!;
+      if (quote) {
+        if (c === "\\") {
+          out += "  ";
+          j++;
+        } else if (text.startsWith(quote, j)) {
+          out += quote;
+          j += quote.length - 1;
+          quote = null;
+        } else {
+          out += " ";
+        }
+        continue;
+      }
+      if (c === "#") break;
+      if (c === "\"" || c === "'") {
+        quote = text.startsWith(c.repeat(3), j) ? c.repeat(3) : c;
+        out += quote;
+        j += quote.length - 1;
+        continue;
+      }
+      if ("([{".includes(c)) depth++;
+      else if (")]}".includes(c)) depth = Math.max(0, depth - 1);
+      out += c;
+    }
+    if (quote?.length === 1) quote = null; // only triple-quoted strings span lines
+    out = out.trimEnd();
+    code.push(out);
+
+    if (continues && current) {
+      current.code = `${current.code.replace(/\\$/, "")} ${out.trim()}`.trim();
+      current.endLine = i + 1;
+    } else if (out.trim()) {
+      current = { line: i + 1, endLine: i + 1, indent: text.length - text.trimStart().length, code: out.trim() };
+      statements.push(current);
+    }
+  });
+  return { statements, code };
+}
+
+// ── Definitions ───────────────────────────────────────────────────────────────
+
+const DEF = /^(?:async\s+)?def\s+([A-Za-z_]\w*)/;
+const CLASS = /^class\s+([A-Za-z_]\w*)\s*(?:\[[^\]]*\])?\s*(?:\((.*)\))?\s*:/;
+const TYPE_ALIAS = /^type\s+([A-Za-z_]\w*)\s*(?:\[[^\]]*\])?\s*=/;
+const ASSIGN = /^([A-Za-z_]\w*(?:\s*,\s*[A-Za-z_]\w*)*)\s*(?::\s*([^=]+?))?\s*=(?!=)\s*(.*)$/;
+const MEMBER = /^([A-Za-z_]\w*)\s*(?::|=(?!=))/; // class attributes, annotated or assigned
+const KEYWORDS = new Set(["if", "elif", "else", "try", "except", "finally", "for", "while", "with", "match", "case", "return", "pass"]);
+
+function classKind(bases = ""): ExportEntry["kind"] {
+  if (/\b(Protocol|TypedDict|NamedTuple)\b/.test(bases)) return "type";
+  if (/\b(Enum|IntEnum|StrEnum|Flag|IntFlag)\b/.test(bases)) return "enum";
+  return "class";
+}
+
+function valueKind(annotation: string | undefined, value: string): ExportEntry["kind"] {
+  if (annotation && /\bTypeAlias\b/.test(annotation)) return "type";
+  if (/^lambda\b/.test(value)) return "function";
+  if (/^(?:typing\.)?(TypeVar|NewType|ParamSpec|TypeVarTuple)\s*\(/.test(value)) return "type";
+  // Factory calls like `make_router(...)` are common; we can't know what they return
+  if (/^[A-Za-z_][\w.]*\s*\(/.test(value)) return "other";
+  return "constant";
+}
+
+/** Names a statement binds, with their kinds */
+function defines(s: Statement): [string, ExportEntry["kind"]][] {
+  let m: RegExpExecArray | null;
+  if ((m = DEF.exec(s.code))) return [[m[1]!, "function"]];
+  if ((m = CLASS.exec(s.code))) return [[m[1]!, classKind(m[2])]];
+  if ((m = TYPE_ALIAS.exec(s.code))) return [[m[1]!, "type"]];
+  if ((m = ASSIGN.exec(s.code))) {
+    const names = m[1]!.split(",").map((n) => n.trim());
+    const kind = names.length > 1 ? "constant" : valueKind(m[2], m[3]!);
+    return names.map((n) => [n, kind]);
+  }
+  return [];
+}
+
+/** The names in `__all__`, or null when the module doesn't declare it */
+function dunderAll(source: string, statements: Statement[]): string[] | null {
+  const lines = source.split("\n");
+  let names: string[] | null = null;
+  for (const s of statements) {
+    const m = s.indent === 0 ? /^__all__\s*(?::[^=]*)?(\+?=)/.exec(s.code) : null;
+    if (!m) continue;
+    if (m[1] === "=" || !names) names = [];
+    const text = lines.slice(s.line - 1, s.endLine).join("\n");
+    for (const q of text.matchAll(/["']([A-Za-z_]\w*)["']/g)) names.push(q[1]!);
+  }
+  return names && [...new Set(names)];
+}
+
+/** `__all__` when declared, else every top-level name without a leading underscore */
+function extractExports(source: string): ExportEntry[] {
+  const { statements } = scan(source);
+  const defined = new Map<string, ExportEntry["kind"]>();
+  for (const s of statements) {
+    if (s.indent !== 0) continue;
+    for (const [name, kind] of defines(s)) if (!defined.has(name)) defined.set(name, kind);
+  }
+  const all = dunderAll(source, statements);
+  if (all) return all.map((name) => ({ name, kind: defined.get(name) ?? "other" }));
+  return [...defined].filter(([name]) => !name.startsWith("_") && name !== "__all__").map(([name, kind]) => ({ name, kind }));
+}
+
+function declarationRanges(source: string): DeclarationRange[] {
+  const { statements } = scan(source);
+  const ranges: DeclarationRange[] = [];
+  const add = (i: number, name: string, kind: ExportEntry["kind"]) => {
+    const s = statements[i]!;
+    let start = i;
+    while (start > 0 && statements[start - 1]!.indent === s.indent && statements[start - 1]!.code.startsWith("@")) start--;
+    let end = i;
+    while (end + 1 < statements.length && statements[end + 1]!.indent > s.indent) end++;
+    ranges.push({ name, kind, startLine: statements[start]!.line, endLine: statements[end]!.endLine });
+  };
+
+  statements.forEach((s, i) => {
+    if (s.indent !== 0) return;
+    for (const [name, kind] of defines(s)) add(i, name, kind);
+    const cls = CLASS.exec(s.code);
+    const bodyIndent = statements[i + 1]?.indent ?? 0;
+    if (!cls || bodyIndent === 0) return;
+    for (let j = i + 1; j < statements.length && statements[j]!.indent > 0; j++) {
+      const member = statements[j]!;
+      if (member.indent !== bodyIndent) continue;
+      const def = DEF.exec(member.code);
+      const attr = def ? null : MEMBER.exec(member.code);
+      if (def) add(j, `${cls[1]}.${def[1]}`, "function");
+      else if (attr && !KEYWORDS.has(attr[1]!)) add(j, `${cls[1]}.${attr[1]}`, "constant");
+    }
+  });
+  return ranges;
+}
+
+// ── Imports ───────────────────────────────────────────────────────────────────
+
+type ImportStatement = { module: string; level: number; names: string[] }; // level: leading dots of a relative import
+
+function importStatements(statements: Statement[]): ImportStatement[] {
+  const found: ImportStatement[] = [];
+  for (const s of statements) {
+    const from = /^from\s+(\.*)\s*([\w.]*)\s+import\s+(.+)$/.exec(s.code);
+    if (from) {
+      const names = from[3]!.replace(/[()]/g, "").split(",").map((n) => n.trim().split(/\s+as\s+/)[0]!).filter(Boolean);
+      found.push({ module: from[2]!, level: from[1]!.length, names });
+      continue;
+    }
+    const plain = /^import\s+(.+)$/.exec(s.code);
+    if (plain) {
+      for (const part of plain[1]!.split(",")) found.push({ module: part.trim().split(/\s+as\s+/)[0]!, level: 0, names: [] });
+    }
+  }
+  return found;
+}
+
+const PROJECT_FILES = ["pyproject.toml", "setup.py", "setup.cfg"];
+
+/** Directories absolute imports are resolved against: project roots (and their src/) from the file up, then the repo root */
+function importRoots(dir: string, exists: (rel: string) => boolean): string[] {
+  const roots: string[] = [];
+  for (let d = dir; ; d = path.posix.dirname(d)) {
+    if (PROJECT_FILES.some((f) => exists(path.posix.join(d, f)))) roots.push(path.posix.join(d, "src"), d);
+    if (d === "." || d === "/") break;
+  }
+  roots.push("src", ".", dir); // a script's own directory is on sys.path too
+  return [...new Set(roots)];
+}
+
+/** `a.b` under `base` → `base/a/b.py` or `base/a/b/__init__.py` */
+function moduleFile(base: string, module: string, exists: (rel: string) => boolean): string | null {
+  const stem = path.posix.join(base, ...module.split(".").filter(Boolean));
+  for (const candidate of [`${stem}.py`, path.posix.join(stem, "__init__.py")]) {
+    if (exists(candidate)) return candidate;
+  }
+  return null;
+}
+
+function resolveImport(imp: ImportStatement, fromFile: string, exists: (rel: string) => boolean): string[] {
+  const dir = path.posix.dirname(fromFile);
+  let bases: string[];
+  if (imp.level > 0) {
+    let base = dir;
+    for (let i = 1; i < imp.level; i++) base = path.posix.join(base, "..");
+    bases = [base];
+  } else {
+    bases = importRoots(dir, exists);
+  }
+  for (const base of bases) {
+    const found: string[] = [];
+    // `from pkg import mod` may name submodules rather than attributes
+    for (const name of imp.names) {
+      const sub = moduleFile(base, `${imp.module}.${name}`, exists);
+      if (sub) found.push(sub);
+    }
+    const mod = imp.module ? moduleFile(base, imp.module, exists) : null;
+    if (mod) found.push(mod);
+    if (found.length > 0) return found;
+  }
+  return [];
+}
+
+function fileExists(): (rel: string) => boolean {
+  const seen = new Map<string, boolean>();
+  return (rel) => {
+    let hit = seen.get(rel);
+    if (hit === undefined) {
+      hit = fs.statSync(fromRepoPath(rel), { throwIfNoEntry: false })?.isFile() ?? false;
+      seen.set(rel, hit);
+    }
+    return hit;
+  };
+}
+
+/** Top-level names of absolute imports that don't resolve inside the repo; `fileName` is repo-relative */
+function packageImports(source: string, fileName: string): string[] {
+  const exists = fileExists();
+  const names = new Set<string>();
+  for (const imp of importStatements(scan(source).statements)) {
+    if (imp.level > 0 || imp.module === "__future__") continue;
+    if (resolveImport(imp, fileName, exists).length === 0) names.add(imp.module.split(".")[0]!);
+  }
+  return [...names].sort();
+}
+
+// ── Usages ────────────────────────────────────────────────────────────────────
+
+function findUsages(source: string, _fileName: string, name: string): Usage[] {
+  const { statements, code } = scan(source);
+  const skip = new Set<number>();
+  for (const s of statements) {
+    const own = DEF.exec(s.code)?.[1] === name || CLASS.exec(s.code)?.[1] === name;
+    if (own || /^(import|from)\s/.test(s.code)) for (let l = s.line; l <= s.endLine; l++) skip.add(l);
+  }
+  const re = new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`);
+  const lines = source.split("\n");
+  const usages: Usage[] = [];
+  code.forEach((c, i) => {
+    if (!skip.has(i + 1) && re.test(c)) usages.push({ line: i + 1, text: lines[i]!.trim() });
+  });
+  return usages;
+}
+
+export const python: LanguageAdapter = {
+  name: "python",
+  extensions: [".py"],
+  extractExports,
+  declarationRanges,
+  packageImports,
+  createResolver() {
+    const exists = fileExists();
+    return (relPath, source) => importStatements(scan(source).statements).flatMap((imp) => resolveImport(imp, relPath, exists));
+  },
+  findUsages,
+};
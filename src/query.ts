@@ -0,0 +1,127 @@
+// ── Keyword query language ───────────────────────────────────────────────────
+//
+//   dal,payments        OR  (also `dal|payments`)
+//   payments+dal        AND (also `payments dal`)
+//   payments -legacy    NOT
+//   (auth|session)+http grouping
+//
+// Precedence: NOT > AND > OR. A `-` only negates at the start of a term, so
+// tags like `soft-delete` still work.
+
+export type KeywordQuery =
+  | { op: "term"; keyword: string }
+  | { op: "not"; expr: KeywordQuery }
+  | { op: "and"; exprs: KeywordQuery[] }
+  | { op: "or"; exprs: KeywordQuery[] };
+
+/** Canonical form for stored and queried keywords: `Soft Delete` → `soft-delete` */
+export function normalizeKeyword(keyword: string): string {
+  return keyword.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+type Token =
+  | { type: "term"; value: string }
+  | { type: "and" | "or" | "not" | "(" | ")" };
+
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i]!;
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "+") {
+      tokens.push({ type: "and" });
+      i++;
+    } else if (c === "," || c === "|") {
+      tokens.push({ type: "or" });
+      i++;
+    } else if (c === "-" || c === "!") {
+      tokens.push({ type: "not" });
+      i++;
+    } else if (c === "(" || c === ")") {
+      tokens.push({ type: c });
+      i++;
+    } else {
+      let j = i;
+      while (j < input.length && !/[\s+,|()]/.test(input[j]!)) j++;
+      tokens.push({ type: "term", value: input.slice(i, j) });
+      i = j;
+    }
+  }
+  return tokens;
+}
+
+export function parseKeywordQuery(input: string): KeywordQuery {
+  const tokens = lex(input);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const fail = (msg: string): never => {
+    throw new Error(`Invalid keyword query "${input}": ${msg}`);
+  };
+
+  function parseOr(): KeywordQuery {
+    const exprs = [parseAnd()];
+    while (peek()?.type === "or") {
+      pos++;
+      exprs.push(parseAnd());
+    }
+    return exprs.length === 1 ? exprs[0]! : { op: "or", exprs };
+  }
+
+  function parseAnd(): KeywordQuery {
+    const exprs = [parseUnary()];
+    for (;;) {
+      const t = peek();
+      if (t?.type === "and") {
+        pos++;
+        exprs.push(parseUnary());
+      } else if (t && (t.type === "term" || t.type === "not" || t.type === "(")) {
+        // juxtaposition: `payments -legacy` reads as payments AND NOT legacy
+        exprs.push(parseUnary());
+      } else {
+        break;
+      }
+    }
+    return exprs.length === 1 ? exprs[0]! : { op: "and", exprs };
+  }
+
+  function parseUnary(): KeywordQuery {
+    const t = peek();
+    if (!t) return fail("unexpected end of query");
+    if (t.type === "not") {
+      pos++;
+      return { op: "not", expr: parseUnary() };
+    }
+    if (t.type === "(") {
+      pos++;
+      const expr = parseOr();
+      if (peek()?.type !== ")") fail("missing )");
+      pos++;
+      return expr;
+    }
+    if (t.type === "term") {
+      pos++;
+      return { op: "term", keyword: normalizeKeyword(t.value) };
+    }
+    return fail(`unexpected "${t.type === "and" ? "+" : t.type === "or" ? "," : t.type}"`);
+  }
+
+  if (tokens.length === 0) fail("empty query");
+  const expr = parseOr();
+  if (pos < tokens.length) fail("unexpected )");
+  return expr;
+}
+
+export function matchesKeywordQuery(query: KeywordQuery, has: (keyword: string) => boolean): boolean {
+  switch (query.op) {
+    case "term":
+      return has(query.keyword);
+    case "not":
+      return !matchesKeywordQuery(query.expr, has);
+    case "and":
+      return query.exprs.every((e) => matchesKeywordQuery(e, has));
+    case "or":
+      return query.exprs.some((e) => matchesKeywordQuery(e, has));
+  }
+}
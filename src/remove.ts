@@ -0,0 +1,124 @@
+import fs from "node:fs/promises";
+import {
+  loadIndex,
+  removeFileCache,
+  loadSymbolsIndex,
+  loadAllSymbols,
+  loadSymbolCard,
+  saveSymbolCard,
+  moveSymbolCard,
+  removeSymbolCard,
+  toRepoPath,
+  fromRepoPath,
+  normalizeRepoPath,
+  type SymbolRelation,
+} from "./cache.js";
+
+// Every operation here plans first and only touches .repoctx/ when dryRun is
+// false, so `--dry-run` shows exactly what a real run would do.
+
+export type RemovalPlan = {
+  modules: string[]; // module card paths
+  symbols: string[]; // symbol card names
+};
+
+export type RenamePlan = {
+  from: string;
+  to: string;
+  rewritten: string[]; // cards whose `related` entries pointed at the old name
+};
+
+async function exists(rel: string): Promise<boolean> {
+  try {
+    await fs.access(fromRepoPath(rel));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Exact name first; fall back to the case-insensitive match `get --symbol` uses */
+async function resolveSymbolName(name: string): Promise<string | null> {
+  const names = Object.keys((await loadSymbolsIndex()).symbols);
+  if (names.includes(name)) return name;
+  return names.find((n) => n.toLowerCase() === name.toLowerCase()) ?? null;
+}
+
+async function applyRemoval(plan: RemovalPlan, dryRun: boolean) {
+  if (dryRun) return;
+  for (const p of plan.modules) await removeFileCache(p);
+  for (const s of plan.symbols) await removeSymbolCard(s);
+}
+
+export async function removeModule(
+  filePath: string,
+  { withSymbols = false, dryRun = false }: { withSymbols?: boolean; dryRun?: boolean } = {}
+): Promise<RemovalPlan> {
+  const idx = await loadIndex();
+  // Meta keys are virtual and stored verbatim; real paths are stored relative to the root
+  const rel = idx.files[filePath] ? filePath : toRepoPath(filePath);
+  const plan: RemovalPlan = { modules: idx.files[rel] ? [rel] : [], symbols: [] };
+
+  if (withSymbols) {
+    plan.symbols = (await loadAllSymbols()).filter((s) => normalizeRepoPath(s.file) === rel).map((s) => s.symbol);
+  }
+
+  await applyRemoval(plan, dryRun);
+  return plan;
+}
+
+export async function removeSymbol(name: string, { dryRun = false }: { dryRun?: boolean } = {}): Promise<RemovalPlan> {
+  const resolved = await resolveSymbolName(name);
+  const plan: RemovalPlan = { modules: [], symbols: resolved ? [resolved] : [] };
+  await applyRemoval(plan, dryRun);
+  return plan;
+}
+
+/** Remove cards whose files no longer exist (meta entries are never pruned) */
+export async function pruneCards({ dryRun = false }: { dryRun?: boolean } = {}): Promise<RemovalPlan> {
+  const idx = await loadIndex();
+  const plan: RemovalPlan = { modules: [], symbols: [] };
+
+  for (const rel of Object.keys(idx.files)) {
+    if (idx.files[rel]!.hash === "meta") continue;
+    if (!(await exists(rel))) plan.modules.push(rel);
+  }
+  for (const s of await loadAllSymbols()) {
+    if (!(await exists(s.file))) plan.symbols.push(s.symbol);
+  }
+
+  await applyRemoval(plan, dryRun);
+  return plan;
+}
+
+export async function renameSymbol(
+  from: string,
+  to: string,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<RenamePlan> {
+  const resolved = await resolveSymbolName(from);
+  if (!resolved) throw new Error(`No symbol card found: "${from}"`);
+  if (resolved !== to && (await loadSymbolsIndex()).symbols[to]) {
+    throw new Error(`A symbol card named "${to}" already exists`);
+  }
+
+  const card = await loadSymbolCard(resolved);
+  if (!card) throw new Error(`Symbol card for "${resolved}" could not be read`);
+
+  // `related` names resolve case-insensitively, as in graph.ts
+  const pointsHere = (r: SymbolRelation) => r.symbol.toLowerCase() === resolved.toLowerCase();
+  const others = (await loadAllSymbols()).filter(
+    (s) => s.symbol !== resolved && s.related?.some(pointsHere)
+  );
+  const plan: RenamePlan = { from: resolved, to, rewritten: others.map((s) => s.symbol) };
+  if (dryRun) return plan;
+
+  const renameRelated = (related: typeof card.related) =>
+    related?.map((r) => (pointsHere(r) ? { ...r, symbol: to } : r));
+
+  await moveSymbolCard(resolved, { ...card, symbol: to, related: renameRelated(card.related) });
+  for (const s of others) {
+    await saveSymbolCard({ ...s, related: renameRelated(s.related) });
+  }
+  return plan;
+}
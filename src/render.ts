@@ -0,0 +1,775 @@
+import type { SymbolCard } from "./cache.js";
+import type { ContextResult, ModuleView, StaleResult, SurfaceDiff, SymbolResult } from "./get.js";
+import type { DiffEndpoint, DiffExcerpt, DiffResult, FileContext, FileStat } from "./diff.js";
+import type { DeclarationChange } from "./symdiff.js";
+import type { LogEntry, LogResult, ShowResult } from "./history.js";
+import type { CoverageResult } from "./coverage.js";
+import { formatOmission, type BudgetOmission } from "./budget.js";
+import type { Graph, SymbolNeighbor } from "./graph.js";
+
+// ── Output formats ────────────────────────────────────────────────────────────
+// Every read command returns a result object; this module is the only place
+// that turns one into text. JSON output carries `schemaVersion`, bumped on any
+// breaking change to the result shapes.
+
+export const OUTPUT_FORMATS = ["text", "markdown", "xml", "json"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const JSON_SCHEMA_VERSION = 1;
+
+export type RenderableResult = ContextResult | SymbolResult | StaleResult | DiffResult | LogResult | ShowResult | CoverageResult;
+
+export function parseOutputFormat(raw: string | undefined): OutputFormat {
+  const format = (raw ?? "text").toLowerCase();
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Unknown format "${raw}". Use one of: ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  return format as OutputFormat;
+}
+
+export function renderResult(result: RenderableResult, format: OutputFormat): string {
+  if (format === "json") {
+    return JSON.stringify({ schemaVersion: JSON_SCHEMA_VERSION, ...result }, null, 2);
+  }
+  switch (result.type) {
+    case "context":
+      return format === "xml" ? contextXml(result) : format === "markdown" ? contextMarkdown(result) : contextText(result);
+    case "symbol":
+      return format === "xml" ? symbolResultXml(result) : format === "markdown" ? symbolResultMarkdown(result) : symbolResultText(result);
+    case "stale":
+      return format === "xml" ? staleXml(result) : format === "markdown" ? staleMarkdown(result) : staleText(result);
+    case "diff":
+      return format === "xml" ? diffXml(result) : format === "markdown" ? diffMarkdown(result) : diffText(result);
+    case "log":
+      return format === "xml" ? logXml(result) : format === "markdown" ? logMarkdown(result) : logText(result);
+    case "show":
+      return format === "xml" ? showXml(result) : format === "markdown" ? showMarkdown(result) : showText(result);
+    case "coverage":
+      return format === "xml" ? coverageXml(result) : format === "markdown" ? coverageMarkdown(result) : coverageText(result);
+  }
+}
+
+// ── Shared helpers ────────────────────────────────────────────────────────────
+
+export function formatSurfaceDiff(d: SurfaceDiff): string {
+  return [
+    ...d.added.map((n) => `+${n}`),
+    ...d.removed.map((n) => `-${n}`),
+    ...d.kindChanged.map((k) => `~${k.name} (${k.from} → ${k.to})`),
+  ].join(", ");
+}
+
+function statusWarning(m: ModuleView): string | null {
+  switch (m.status) {
+    case "missing":
+      return "File not found (may have been deleted or moved)";
+    case "contract-changed": {
+      const detail = m.surface ? formatSurfaceDiff(m.surface) : "";
+      return `Context outdated (public surface changed${detail ? `: ${detail}` : ""})`;
+    }
+    case "implementation-changed":
+      return "Context outdated (implementation changed, public surface unchanged)";
+    default:
+      return null;
+  }
+}
+
+const DRAFT_LABEL = "draft from repoctx scan, unverified";
+
+function draftSuffix(card: { source?: "scan" | undefined }): string {
+  return card.source === "scan" ? ` (${DRAFT_LABEL})` : "";
+}
+
+function formatExports(m: ModuleView): string {
+  return (m.exports ?? []).map((e) => `${e.name}(${e.kind})`).join(", ");
+}
+
+function formatRelated(s: SymbolCard): string {
+  return (s.related ?? []).map((r) => `${r.symbol} (${r.relation})`).join(", ");
+}
+
+function targetLabel(r: LogResult | ShowResult): string {
+  return r.target.kind === "symbol" ? `symbol ${r.target.name}` : r.target.name;
+}
+
+function savedLabel(at: string, head: string | undefined): string {
+  return head ? `${at} at ${head.slice(0, 7)}` : at;
+}
+
+function noHistoryMessage(r: LogResult): string {
+  return `No history for ${targetLabel(r)}. Cards record their history from their next save.`;
+}
+
+function noVersionMessage(r: ShowResult): string {
+  return `No card for ${targetLabel(r)} as of ${r.at}. See repoctx log ${r.target.kind === "symbol" ? `--symbol ${r.target.name}` : r.target.name}`;
+}
+
+function isEmptyContext(r: ContextResult) {
+  return r.modules.length === 0 && r.symbols.length === 0 && !r.omission;
+}
+
+const NO_CONTEXT = "No context found. Use `repoctx save` to add context.";
+
+function shortHead(r: DiffResult) {
+  return (r.range?.from.rev ?? r.checkpoint?.head)?.slice(0, 7) ?? "";
+}
+
+function describeEndpoint(e: DiffEndpoint): string {
+  const short = e.rev?.slice(0, 7) ?? "";
+  switch (e.kind) {
+    case "worktree":
+      return "working tree";
+    case "staged":
+      return "staged changes";
+    case "merge-base":
+      return `merge-base with ${e.spec} (${short})`;
+    case "checkpoint":
+      return e.spec === "last" ? `checkpoint ${short}` : `checkpoint "${e.spec}" (${short})`;
+    default:
+      return e.spec === e.rev || short === e.spec ? short : `${e.spec} (${short})`;
+  }
+}
+
+/** "checkpoint abc1234 → HEAD (def5678)"; falls back to the checkpoint for results without a range */
+function rangeLabel(r: DiffResult): string {
+  if (!r.range) return shortHead(r);
+  return `${describeEndpoint(r.range.from)} → ${describeEndpoint(r.range.to)}`;
+}
+
+function diffStatusMessage(r: DiffResult): string | null {
+  switch (r.status) {
+    case "no-checkpoint":
+      return "No checkpoint found. Run `repoctx checkpoint` first, or pass --from / --merge-base.";
+    case "not-git":
+      return "Not in a git repository.";
+    case "no-changes":
+      return `No changes: ${rangeLabel(r)}.`;
+    case "failed":
+      return `Could not compute diff: ${rangeLabel(r) || "git diff failed"}.`;
+    default:
+      return null;
+  }
+}
+
+// ── Text ──────────────────────────────────────────────────────────────────────
+
+/** Text lines of a module card split by budget group (see getContext) */
+export function moduleTextParts(m: ModuleView) {
+  const warning = statusWarning(m);
+  return {
+    head: [`[${m.path}]${draftSuffix(m)}`, ""],
+    warnings: [...(m.footguns ? [`⚠ Footguns: ${m.footguns}`] : []), ...(warning ? [`⚠ ${warning}`] : [])],
+    summary: [
+      ...(m.summary !== undefined ? [m.summary] : []),
+      ...(m.keywords?.length ? [`Keywords: ${m.keywords.join(", ")}`] : []),
+      ...(m.dependencies?.length ? [`Deps: ${m.dependencies.join(", ")}`] : []),
+      ...(m.delta ? [`Δ Last change: ${m.delta}`] : []),
+      ...importTextLines(m),
+    ],
+    symbols: [
+      ...(m.symbols?.length ? [`Symbols: ${m.symbols.join(", ")}`] : []),
+      ...(m.exports?.length ? [`Exports: ${formatExports(m)}`] : []),
+    ],
+  };
+}
+
+function moduleTextLines(m: ModuleView): string[] {
+  const lines = [`[${m.path}]${draftSuffix(m)}`];
+  if (m.summary !== undefined) lines.push(m.summary);
+  if (m.symbols?.length) lines.push(`Symbols: ${m.symbols.join(", ")}`);
+  if (m.exports?.length) lines.push(`Exports: ${formatExports(m)}`);
+  if (m.keywords?.length) lines.push(`Keywords: ${m.keywords.join(", ")}`);
+  if (m.dependencies?.length) lines.push(`Deps: ${m.dependencies.join(", ")}`);
+  if (m.footguns) lines.push(`⚠ Footguns: ${m.footguns}`);
+  if (m.delta) lines.push(`Δ Last change: ${m.delta}`);
+  lines.push(...importTextLines(m));
+  const warning = statusWarning(m);
+  if (warning) lines.push(`⚠ ${warning}`);
+  lines.push("");
+  return lines;
+}
+
+function importTextLines(m: ModuleView): string[] {
+  const lines: string[] = [];
+  if (m.imports) lines.push(`Imports: ${m.imports.join(", ") || "(none)"}`);
+  if (m.importers) lines.push(`Imported by: ${m.importers.join(", ") || "(none)"}`);
+  return lines;
+}
+
+export function symbolTextLines(s: SymbolCard): string[] {
+  const lines = [`[symbol: ${s.symbol}] (${s.kind}) ${s.file}${draftSuffix(s)}`, `  ${s.purpose}`];
+  if (s.signature) lines.push(`  Sig: ${s.signature}`);
+  if (s.related?.length) lines.push(`  Related: ${formatRelated(s)}`);
+  lines.push("");
+  return lines;
+}
+
+function contextText(r: ContextResult): string {
+  if (isEmptyContext(r)) return NO_CONTEXT;
+  const lines: string[] = [];
+  for (const m of r.modules) lines.push(...moduleTextLines(m));
+  if (r.symbols.length > 0) {
+    lines.push("── Symbols ──────────────────────────────────────────────");
+    for (const s of r.symbols) lines.push(...symbolTextLines(s));
+  }
+  if (r.omission) lines.push(...formatOmission(r.omission));
+  return lines.join("\n");
+}
+
+function symbolResultText(r: SymbolResult): string {
+  const s = r.symbol;
+  if (!s) return `No symbol found: "${r.query}"`;
+  const lines = [`[symbol: ${s.symbol}]${draftSuffix(s)}`, `Kind: ${s.kind}`, `File: ${s.file}`, `Purpose: ${s.purpose}`];
+  if (s.signature) lines.push(`Signature: ${s.signature}`);
+  if (r.neighbors) {
+    lines.push(`Related (depth ${r.depth}; → listed here, ← lists this symbol):`);
+    for (const n of r.neighbors) lines.push(...neighborTextLines(n));
+    if (r.neighbors.length === 0) lines.push("  (none)");
+  } else if (s.related?.length) {
+    lines.push(`Related:`);
+    for (const rel of s.related) lines.push(`  - ${rel.symbol} (${rel.relation})`);
+  }
+  if (s.keywords?.length) lines.push(`Keywords: ${s.keywords.join(", ")}`);
+  lines.push(`Updated: ${s.updatedAt}`);
+  return lines.join("\n");
+}
+
+function neighborTextLines(n: SymbolNeighbor): string[] {
+  const indent = "  ".repeat(n.depth);
+  const arrow = n.direction === "out" ? "→" : "←";
+  const via = n.depth > 1 ? ` via ${n.via}` : "";
+  const where = n.card ? ` [${n.card.kind}] ${n.card.file}` : " (no card)";
+  const lines = [`${indent}${arrow} ${n.symbol} (${n.relation})${via}${where}`];
+  if (n.card) {
+    lines.push(`${indent}    ${n.card.purpose}`);
+    if (n.card.signature) lines.push(`${indent}    Sig: ${n.card.signature}`);
+  }
+  return lines;
+}
+
+function staleText(r: StaleResult): string {
+  const lines: string[] = [];
+  for (const m of r.moves) {
+    lines.push(`↪ Moved card ${m.from} → ${m.to} (${m.via === "git" ? "git rename" : "content hash match"})`);
+  }
+  if (r.moves.length > 0) lines.push("");
+
+  if (r.entries.length === 0) {
+    lines.push(r.contractOnly ? "✓ No public surface changes." : "✓ All context is up to date.");
+    return lines.join("\n");
+  }
+  lines.push(`${r.entries.length} stale file(s):`, "");
+
+  const contract = r.entries.filter((e) => e.contractChanged);
+  const impl = r.entries.filter((e) => !e.contractChanged);
+
+  if (contract.length > 0) {
+    lines.push(`Contract changed (${contract.length}):`);
+    for (const { path: p, reason, surface } of contract) {
+      lines.push(`  ⚠ ${p}  (${reason})`);
+      const detail = surface ? formatSurfaceDiff(surface) : "";
+      if (detail) lines.push(`    exports: ${detail}`);
+      lines.push(`    → repoctx save ${p} "<updated summary>" --keywords "..." --delta "what changed"`);
+    }
+    lines.push("");
+  }
+
+  if (impl.length > 0) {
+    lines.push(`Implementation only (${impl.length}):`);
+    for (const { path: p } of impl) {
+      lines.push(`  · ${p}  (public surface unchanged — re-save only if behavior changed)`);
+    }
+  }
+  return lines.join("\n").trimEnd();
+}
+
+export function fileStatLine(s: FileStat): string {
+  return `- ${s.file} (+${s.additions} -${s.deletions})`;
+}
+
+export function diffHeaderLines(r: DiffResult): string[] {
+  const at = r.checkpoint?.at ? ` — ${r.checkpoint.at}` : "";
+  const lines = [`# Repoctx Diff (${rangeLabel(r)}${at})`, ""];
+  if (r.files.length > 0) {
+    lines.push(`Files changed (${r.files.length}):`, "");
+    const shown = r.top ? r.files.slice(0, r.top) : r.files;
+    for (const s of shown) lines.push(fileStatLine(s));
+    if (r.top && r.files.length > r.top) lines.push(`... and ${r.files.length - r.top} more files`);
+    lines.push("", "---", "");
+  }
+  return lines;
+}
+
+/** Card notes shown above a changed file's diff lines */
+function fileContextLines(ctx: FileContext): string[] {
+  const { card, symbols } = ctx;
+  if (!card) return ["· no card"];
+  const lines: string[] = [];
+  const warning = statusWarning(card);
+  if (warning) lines.push(`⚠ Card stale: ${warning}`);
+  if (card.summary) lines.push(`Card: ${card.summary}`);
+  if (card.footguns) lines.push(`⚠ Footguns: ${card.footguns}`);
+  for (const s of symbols) lines.push(`◦ ${s.symbol} (${s.kind}): ${s.purpose}`);
+  return lines;
+}
+
+/** "modified removeCharge (+12 −3)"; hunk entries have no declaration, just their context */
+export function formatChange(c: DeclarationChange): string {
+  const counts = [...(c.additions ? [`+${c.additions}`] : []), ...(c.deletions ? [`−${c.deletions}`] : [])].join(" ");
+  const label = c.kind === "hunk" ? c.name : `${c.change} ${c.name}`;
+  return counts ? `${label} (${counts})` : label;
+}
+
+export function excerptTextLines(e: DiffExcerpt): string[] {
+  return [
+    `[${e.file}]`,
+    ...(e.changes.length ? [`Changes: ${e.changes.map(formatChange).join(", ")}`] : []),
+    ...(e.context ? fileContextLines(e.context) : []),
+    ...e.lines,
+    "",
+  ];
+}
+
+function resaveTextLines(commands: string[]): string[] {
+  return [`Re-index (${commands.length}):`, ...commands.map((c) => `  ${c}`), ""];
+}
+
+function diffText(r: DiffResult): string {
+  const message = diffStatusMessage(r);
+  if (message) return message;
+  const lines = diffHeaderLines(r);
+  for (const e of r.excerpts) lines.push(...excerptTextLines(e));
+  if (r.resave) lines.push(...resaveTextLines(r.resave));
+  if (r.omission) lines.push(...formatOmission(r.omission));
+  return lines.join("\n");
+}
+
+function logEntryTextLines(e: LogEntry): string[] {
+  const lines = [savedLabel(e.at, e.head), `  ${e.summary}`];
+  if (e.file) lines.push(`  File: ${e.file}`);
+  if (e.signature) lines.push(`  Sig: ${e.signature}`);
+  if (e.surface) lines.push(`  Exports: ${formatSurfaceDiff(e.surface)}`);
+  if (e.delta) lines.push(`  Δ ${e.delta}`);
+  lines.push("");
+  return lines;
+}
+
+function logText(r: LogResult): string {
+  if (r.entries.length === 0) return noHistoryMessage(r);
+  const lines = [`History of ${targetLabel(r)} (${r.entries.length} saves, newest first):`, ""];
+  for (const e of r.entries) lines.push(...logEntryTextLines(e));
+  return lines.join("\n").trimEnd();
+}
+
+function showText(r: ShowResult): string {
+  if (!r.module && !r.symbol) return noVersionMessage(r);
+  const lines = [`# As of ${r.at}: saved ${savedLabel(r.savedAt ?? "", r.head)}`, ""];
+  if (r.module) lines.push(...moduleTextLines(r.module));
+  if (r.symbol) lines.push(...symbolTextLines(r.symbol));
+  return lines.join("\n").trimEnd();
+}
+
+function coverageHeadline(r: CoverageResult): string {
+  const scope = r.scope === "." ? "" : ` under ${r.scope}`;
+  return `${r.indexed}/${r.files} source files${scope} have a module card (${r.percent}%)`;
+}
+
+function coverageText(r: CoverageResult): string {
+  if (r.files === 0) return `No source files${r.scope === "." ? "" : ` under ${r.scope}`}.`;
+  const lines = [coverageHeadline(r), ""];
+  if (r.uncoveredTotal > 0) {
+    const shown = r.uncovered.length < r.uncoveredTotal ? `top ${r.uncovered.length} of ${r.uncoveredTotal}` : `${r.uncoveredTotal}`;
+    lines.push(`No card (${shown}; commits since ${r.since}, lines, importers):`);
+    const width = Math.max(...r.uncovered.map((u) => u.path.length));
+    for (const u of r.uncovered) {
+      lines.push(`  ${u.path.padEnd(width)}  ${u.score.toFixed(2)}  ${u.churn} commits, ${u.lines} lines, ${u.importers} importers`);
+    }
+    lines.push("");
+  }
+  lines.push("By directory:");
+  const width = Math.max(...r.directories.map((d) => d.dir.length));
+  for (const d of r.directories) {
+    lines.push(`  ${d.dir.padEnd(width)}  ${`${d.percent}%`.padStart(6)}  ${d.indexed}/${d.files} files, ${d.symbols} symbol cards`);
+  }
+  if (r.indexedFiles.length > 0) {
+    lines.push("", "Symbol cards per indexed file (fewest first):");
+    for (const f of r.indexedFiles) lines.push(`  ${String(f.symbols).padStart(3)}  ${f.path}`);
+  }
+  return lines.join("\n").trimEnd();
+}
+
+// ── Markdown ──────────────────────────────────────────────────────────────────
+
+function omissionMarkdown(o: BudgetOmission): string[] {
+  const lines = ["---", "", `_Omitted to fit a budget of ${o.budget} tokens (~${o.used} shown):_`, ""];
+  if (o.short) return [...lines, "```bash", o.rerun, "```"];
+  for (const { label, names } of o.omitted) lines.push(`- ${label}: ${names.map((n) => `\`${n}\``).join(", ")}`);
+  lines.push("", "Fetch with:", "", "```bash", ...o.fetch, o.rerun, "```");
+  return lines;
+}
+
+function symbolMarkdown(s: SymbolCard, level: string): string[] {
+  const lines = [`${level} \`${s.symbol}\` (${s.kind})${draftSuffix(s)}`, "", s.purpose, "", `- File: \`${s.file}\``];
+  if (s.signature) lines.push(`- Signature: \`${s.signature}\``);
+  if (s.related?.length) lines.push(`- Related: ${formatRelated(s)}`);
+  if (s.keywords?.length) lines.push(`- Keywords: ${s.keywords.join(", ")}`);
+  lines.push("");
+  return lines;
+}
+
+function contextMarkdown(r: ContextResult): string {
+  if (isEmptyContext(r)) return NO_CONTEXT;
+  const lines: string[] = [];
+  for (const m of r.modules) {
+    lines.push(`## \`${m.path}\``, "");
+    if (m.source === "scan") lines.push(`> _${DRAFT_LABEL}_`, "");
+    const warning = statusWarning(m);
+    if (warning) lines.push(`> ⚠ ${warning}`, "");
+    if (m.footguns) lines.push(`> **Footguns:** ${m.footguns}`, "");
+    if (m.summary !== undefined) lines.push(m.summary, "");
+    const bullets: string[] = [];
+    if (m.symbols?.length) bullets.push(`- Symbols: ${m.symbols.join(", ")}`);
+    if (m.exports?.length) bullets.push(`- Exports: ${formatExports(m)}`);
+    if (m.keywords?.length) bullets.push(`- Keywords: ${m.keywords.join(", ")}`);
+    if (m.dependencies?.length) bullets.push(`- Deps: ${m.dependencies.join(", ")}`);
+    if (m.delta) bullets.push(`- Last change: ${m.delta}`);
+    if (m.imports) bullets.push(`- Imports: ${m.imports.map((p) => `\`${p}\``).join(", ") || "none"}`);
+    if (m.importers) bullets.push(`- Imported by: ${m.importers.map((p) => `\`${p}\``).join(", ") || "none"}`);
+    if (bullets.length > 0) lines.push(...bullets, "");
+  }
+  if (r.symbols.length > 0) {
+    lines.push("## Symbols", "");
+    for (const s of r.symbols) lines.push(...symbolMarkdown(s, "###"));
+  }
+  if (r.omission) lines.push(...omissionMarkdown(r.omission));
+  return lines.join("\n").trimEnd();
+}
+
+function symbolResultMarkdown(r: SymbolResult): string {
+  if (!r.symbol) return `No symbol found: "${r.query}"`;
+  const lines = [...symbolMarkdown(r.symbol, "##"), `_Updated: ${r.symbol.updatedAt}_`];
+  if (r.neighbors?.length) {
+    lines.push("", `### Related (depth ${r.depth})`, "");
+    for (const n of r.neighbors) {
+      const arrow = n.direction === "out" ? "→" : "←";
+      const detail = n.card ? ` — ${n.card.purpose}${n.card.signature ? ` \`${n.card.signature}\`` : ""}` : " _(no card)_";
+      lines.push(`${"  ".repeat(n.depth - 1)}- ${arrow} \`${n.symbol}\` (${n.relation})${detail}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function staleMarkdown(r: StaleResult): string {
+  const lines: string[] = [];
+  if (r.moves.length > 0) {
+    lines.push("## Moved", "");
+    for (const m of r.moves) lines.push(`- \`${m.from}\` → \`${m.to}\` (${m.via})`);
+    lines.push("");
+  }
+  if (r.entries.length === 0) {
+    lines.push(r.contractOnly ? "No public surface changes." : "All context is up to date.");
+    return lines.join("\n");
+  }
+  const contract = r.entries.filter((e) => e.contractChanged);
+  const impl = r.entries.filter((e) => !e.contractChanged);
+  if (contract.length > 0) {
+    lines.push(`## Contract changed (${contract.length})`, "");
+    for (const e of contract) {
+      const detail = e.surface ? formatSurfaceDiff(e.surface) : "";
+      lines.push(`- \`${e.path}\` — ${e.reason}${detail ? `; exports: ${detail}` : ""}`);
+    }
+    lines.push("");
+  }
+  if (impl.length > 0) {
+    lines.push(`## Implementation only (${impl.length})`, "");
+    for (const e of impl) lines.push(`- \`${e.path}\``);
+  }
+  return lines.join("\n").trimEnd();
+}
+
+function diffMarkdown(r: DiffResult): string {
+  const message = diffStatusMessage(r);
+  if (message) return message;
+  const at = r.checkpoint?.at ? ` (${r.checkpoint.at})` : "";
+  const lines = [`# Diff: ${rangeLabel(r)}${at}`, ""];
+  if (r.files.length > 0) {
+    lines.push(`## Files changed (${r.files.length})`, "");
+    const shown = r.top ? r.files.slice(0, r.top) : r.files;
+    for (const s of shown) lines.push(`- \`${s.file}\` (+${s.additions} -${s.deletions})`);
+    if (r.top && r.files.length > r.top) lines.push(`- … and ${r.files.length - r.top} more files`);
+    lines.push("");
+  }
+  for (const e of r.excerpts) {
+    lines.push(`### \`${e.file}\``, "");
+    if (e.changes.length) {
+      for (const c of e.changes) lines.push(`- ${formatChange(c).replace(c.name, `\`${c.name}\``)}`);
+      lines.push("");
+    }
+    if (e.context) lines.push(...fileContextLines(e.context).map((l) => `> ${l}`), "");
+    if (e.lines.length > 0) lines.push("```diff", ...e.lines, "```", "");
+  }
+  if (r.resave) lines.push("## Re-index", "", "```bash", ...r.resave, "```", "");
+  if (r.omission) lines.push(...omissionMarkdown(r.omission));
+  return lines.join("\n").trimEnd();
+}
+
+function logMarkdown(r: LogResult): string {
+  if (r.entries.length === 0) return noHistoryMessage(r);
+  const lines = [`# History of \`${r.target.name}\``, ""];
+  for (const e of r.entries) {
+    lines.push(`## ${savedLabel(e.at, e.head)}`, "", e.summary, "");
+    const bullets: string[] = [];
+    if (e.file) bullets.push(`- File: \`${e.file}\``);
+    if (e.signature) bullets.push(`- Signature: \`${e.signature}\``);
+    if (e.surface) bullets.push(`- Exports: ${formatSurfaceDiff(e.surface)}`);
+    if (e.delta) bullets.push(`- Change: ${e.delta}`);
+    if (bullets.length > 0) lines.push(...bullets, "");
+  }
+  return lines.join("\n").trimEnd();
+}
+
+function showMarkdown(r: ShowResult): string {
+  if (!r.module && !r.symbol) return noVersionMessage(r);
+  const lines = [`_As of ${r.at}: saved ${savedLabel(r.savedAt ?? "", r.head)}_`, ""];
+  if (r.module) lines.push(contextMarkdown({ type: "context", modules: [r.module], symbols: [] }));
+  if (r.symbol) lines.push(...symbolMarkdown(r.symbol, "##"));
+  return lines.join("\n").trimEnd();
+}
+
+function coverageMarkdown(r: CoverageResult): string {
+  if (r.files === 0) return `No source files${r.scope === "." ? "" : ` under \`${r.scope}\``}.`;
+  const lines = [`**${coverageHeadline(r)}**`, ""];
+  if (r.uncoveredTotal > 0) {
+    lines.push(`## No card (${r.uncoveredTotal})`, "", "| File | Score | Commits | Lines | Importers |", "| --- | ---: | ---: | ---: | ---: |");
+    for (const u of r.uncovered) lines.push(`| \`${u.path}\` | ${u.score.toFixed(2)} | ${u.churn} | ${u.lines} | ${u.importers} |`);
+    lines.push("");
+  }
+  lines.push("## By directory", "", "| Directory | Coverage | Files | Symbol cards |", "| --- | ---: | ---: | ---: |");
+  for (const d of r.directories) lines.push(`| \`${d.dir}\` | ${d.percent}% | ${d.indexed}/${d.files} | ${d.symbols} |`);
+  if (r.indexedFiles.length > 0) {
+    lines.push("", "## Symbol cards per indexed file", "");
+    for (const f of r.indexedFiles) lines.push(`- \`${f.path}\` — ${f.symbols}`);
+  }
+  return lines.join("\n").trimEnd();
+}
+
+// ── XML tags (for prompt injection) ──────────────────────────────────────────
+
+function esc(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function attr(text: string): string {
+  return esc(text).replace(/"/g, "&quot;");
+}
+
+function tag(name: string, body: string | undefined): string[] {
+  return body ? [`<${name}>${esc(body)}</${name}>`] : [];
+}
+
+function omissionXml(o: BudgetOmission): string[] {
+  return [`<omitted budget="${o.budget}" used="${o.used}" total="${o.total}">`, ...formatOmission(o).slice(1).map(esc), "</omitted>"];
+}
+
+function symbolXml(s: SymbolCard): string[] {
+  return [
+    `<symbol name="${attr(s.symbol)}" kind="${s.kind}" file="${attr(s.file)}"${s.source ? ` source="${s.source}"` : ""}>`,
+    ...tag("purpose", s.purpose),
+    ...tag("signature", s.signature),
+    ...tag("related", s.related?.length ? formatRelated(s) : undefined),
+    ...tag("keywords", s.keywords?.join(", ")),
+    "</symbol>",
+  ];
+}
+
+function contextXml(r: ContextResult): string {
+  const lines = ["<context>"];
+  for (const m of r.modules) {
+    lines.push(
+      `<module path="${attr(m.path)}" status="${m.status}"${m.source ? ` source="${m.source}"` : ""}>`,
+      ...tag("warning", statusWarning(m) ?? undefined),
+      ...tag("footguns", m.footguns),
+      ...tag("summary", m.summary),
+      ...tag("symbols", m.symbols?.join(", ")),
+      ...tag("exports", m.exports?.length ? formatExports(m) : undefined),
+      ...tag("keywords", m.keywords?.join(", ")),
+      ...tag("dependencies", m.dependencies?.join(", ")),
+      ...tag("delta", m.delta),
+      ...tag("imports", m.imports?.join(", ")),
+      ...tag("importers", m.importers?.join(", ")),
+      "</module>"
+    );
+  }
+  for (const s of r.symbols) lines.push(...symbolXml(s));
+  if (r.omission) lines.push(...omissionXml(r.omission));
+  lines.push("</context>");
+  return lines.join("\n");
+}
+
+function symbolResultXml(r: SymbolResult): string {
+  if (!r.symbol) return `<symbol name="${attr(r.query)}" found="false"/>`;
+  const lines = symbolXml(r.symbol);
+  for (const n of r.neighbors ?? []) {
+    const attrs = `name="${attr(n.symbol)}" relation="${attr(n.relation)}" direction="${n.direction}" via="${attr(n.via)}" depth="${n.depth}"`;
+    if (!n.card) {
+      lines.push(`<related ${attrs}/>`);
+      continue;
+    }
+    lines.push(
+      `<related ${attrs} kind="${n.card.kind}" file="${attr(n.card.file)}">`,
+      ...tag("purpose", n.card.purpose),
+      ...tag("signature", n.card.signature),
+      "</related>"
+    );
+  }
+  return lines.join("\n");
+}
+
+function staleXml(r: StaleResult): string {
+  const lines = [`<stale count="${r.entries.length}">`];
+  for (const m of r.moves) {
+    lines.push(`<moved from="${attr(m.from)}" to="${attr(m.to)}" via="${m.via}"/>`);
+  }
+  for (const e of r.entries) {
+    const detail = e.surface ? formatSurfaceDiff(e.surface) : "";
+    const attrs = `path="${attr(e.path)}" change="${e.contractChanged ? "contract" : "implementation"}" reason="${attr(e.reason)}"`;
+    lines.push(detail ? `<file ${attrs}>${esc(detail)}</file>` : `<file ${attrs}/>`);
+  }
+  lines.push("</stale>");
+  return lines.join("\n");
+}
+
+function diffXml(r: DiffResult): string {
+  const message = diffStatusMessage(r);
+  if (message) return `<diff status="${r.status}">${esc(message)}</diff>`;
+  const range = r.range
+    ? ` from="${attr(r.range.from.rev ?? r.range.from.spec)}" to="${attr(r.range.to.rev ?? r.range.to.spec)}"`
+    : "";
+  const lines = [`<diff since="${shortHead(r)}" at="${attr(r.checkpoint?.at ?? "")}"${range} files="${r.files.length}">`];
+  const shown = r.top ? r.files.slice(0, r.top) : r.files;
+  for (const s of shown) {
+    lines.push(`<file path="${attr(s.file)}" additions="${s.additions}" deletions="${s.deletions}"/>`);
+  }
+  for (const e of r.excerpts) {
+    const card = e.context?.card;
+    const status = e.context ? ` card="${card ? card.status : "none"}"` : "";
+    lines.push(`<excerpt path="${attr(e.file)}"${status}>`);
+    for (const c of e.changes) {
+      lines.push(`<change name="${attr(c.name)}" kind="${c.kind}" type="${c.change}" additions="${c.additions}" deletions="${c.deletions}"/>`);
+    }
+    if (card?.summary) lines.push(`<summary>${esc(card.summary)}</summary>`);
+    if (card?.footguns) lines.push(`<footguns>${esc(card.footguns)}</footguns>`);
+    for (const s of e.context?.symbols ?? []) {
+      lines.push(`<symbol name="${attr(s.symbol)}" kind="${s.kind}">${esc(s.purpose)}</symbol>`);
+    }
+    lines.push(...e.lines.map(esc), "</excerpt>");
+  }
+  for (const c of r.resave ?? []) lines.push(`<resave>${esc(c)}</resave>`);
+  if (r.omission) lines.push(...omissionXml(r.omission));
+  lines.push("</diff>");
+  return lines.join("\n");
+}
+
+function logXml(r: LogResult): string {
+  const lines = [`<history ${r.target.kind === "symbol" ? "symbol" : "path"}="${attr(r.target.name)}" saves="${r.entries.length}">`];
+  for (const e of r.entries) {
+    lines.push(
+      `<save at="${attr(e.at)}"${e.head ? ` head="${attr(e.head)}"` : ""}>`,
+      ...tag("summary", e.summary),
+      ...tag("file", e.file),
+      ...tag("signature", e.signature),
+      ...tag("exports", e.surface ? formatSurfaceDiff(e.surface) : undefined),
+      ...tag("delta", e.delta),
+      "</save>"
+    );
+  }
+  lines.push("</history>");
+  return lines.join("\n");
+}
+
+function showXml(r: ShowResult): string {
+  if (!r.module && !r.symbol) return `<card ${r.target.kind === "symbol" ? "symbol" : "path"}="${attr(r.target.name)}" at="${attr(r.at)}" found="false"/>`;
+  const head = r.head ? ` head="${attr(r.head)}"` : "";
+  const lines = [`<card at="${attr(r.at)}" saved="${attr(r.savedAt ?? "")}"${head}>`];
+  if (r.module) lines.push(contextXml({ type: "context", modules: [r.module], symbols: [] }));
+  if (r.symbol) lines.push(...symbolXml(r.symbol));
+  lines.push("</card>");
+  return lines.join("\n");
+}
+
+function coverageXml(r: CoverageResult): string {
+  const lines = [`<coverage scope="${attr(r.scope)}" files="${r.files}" indexed="${r.indexed}" percent="${r.percent}">`];
+  for (const u of r.uncovered) {
+    lines.push(`<uncovered path="${attr(u.path)}" score="${u.score}" churn="${u.churn}" lines="${u.lines}" importers="${u.importers}"/>`);
+  }
+  for (const d of r.directories) {
+    lines.push(`<directory path="${attr(d.dir)}" files="${d.files}" indexed="${d.indexed}" percent="${d.percent}" symbols="${d.symbols}"/>`);
+  }
+  for (const f of r.indexedFiles) lines.push(`<indexed path="${attr(f.path)}" symbols="${f.symbols}"/>`);
+  lines.push("</coverage>");
+  return lines.join("\n");
+}
+
+// ── Graphs ────────────────────────────────────────────────────────────────────
+
+export const GRAPH_FORMATS = ["mermaid", "dot", "json"] as const;
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export function parseGraphFormat(raw: string | undefined): GraphFormat {
+  const format = (raw ?? "mermaid").toLowerCase();
+  if (!(GRAPH_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Unknown graph format "${raw}". Use one of: ${GRAPH_FORMATS.join(", ")}`);
+  }
+  return format as GraphFormat;
+}
+
+export function renderGraph(graph: Graph, format: GraphFormat): string {
+  if (format === "json") {
+    return JSON.stringify({ schemaVersion: JSON_SCHEMA_VERSION, ...graph }, null, 2);
+  }
+  return format === "dot" ? graphDot(graph) : graphMermaid(graph);
+}
+
+function graphMermaid(g: Graph): string {
+  // Mermaid ids must be plain identifiers, so nodes get positional ids
+  const ids = new Map(g.nodes.map((n, i) => [n.id, `n${i}`]));
+  const label = (text: string) => text.replace(/"/g, "#quot;");
+  const lines = ["graph LR"];
+  for (const n of g.nodes) {
+    lines.push(`  ${ids.get(n.id)}["${label(n.label)}"]`);
+    if (n.missing) lines.push(`  class ${ids.get(n.id)} missing`);
+  }
+  for (const e of g.edges) {
+    const arrow = e.label ? `-->|"${label(e.label)}"|` : "-->";
+    lines.push(`  ${ids.get(e.from)} ${arrow} ${ids.get(e.to)}`);
+  }
+  if (g.nodes.some((n) => n.missing)) lines.push("  classDef missing stroke-dasharray: 4 4");
+  return lines.join("\n");
+}
+
+function graphDot(g: Graph): string {
+  const q = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, "\\\"")}"`;
+  const lines = [`digraph ${g.kind} {`, "  rankdir=LR;", "  node [shape=box];"];
+
+  // One cluster per group (file), so related variants in a file sit together
+  const groups = new Map<string, typeof g.nodes>();
+  for (const n of g.nodes) {
+    if (!n.group) continue;
+    groups.set(n.group, [...(groups.get(n.group) ?? []), n]);
+  }
+  let i = 0;
+  for (const [group, nodes] of groups) {
+    lines.push(`  subgraph cluster_${i++} {`, `    label=${q(group)};`);
+    for (const n of nodes) lines.push(`    ${q(n.id)} [label=${q(n.label)}];`);
+    lines.push("  }");
+  }
+  for (const n of g.nodes) {
+    if (n.group) continue;
+    lines.push(`  ${q(n.id)} [label=${q(n.label)}${n.missing ? ", style=dashed" : ""}];`);
+  }
+  for (const e of g.edges) {
+    lines.push(`  ${q(e.from)} -> ${q(e.to)}${e.label ? ` [label=${q(e.label)}]` : ""};`);
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
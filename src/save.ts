@@ -1,30 +1,22 @@
-import path from "node:path";
-import { execSync } from "node:child_process";
 import {
   fileHash,
   saveFileCache,
   getGitHead,
   computePublicSurfaceHash,
+  computeExportSurfaceHash,
+  toRepoPath,
+  fromRepoPath,
   type ExportEntry,
 } from "./cache.js";
+import { normalizeKeyword } from "./query.js";
+import { extractExportsFromFile } from "./languages.js";
+import { createModuleResolver } from "./imports.js";
+import { loadConfig, isExcluded, defaultKeywords } from "./config.js";
 
-function findWhereUsed(relPath: string): string[] {
-  try {
-    const basename = path.basename(relPath, path.extname(relPath));
-    const raw = execSync(
-      `grep -r --include="*.js" --include="*.ts" --exclude-dir=node_modules --exclude-dir=.git --exclude-dir=dist --exclude-dir=.repoctx -l "${basename}" . 2>/dev/null || true`,
-      { encoding: "utf8", cwd: process.cwd() }
-    );
-    return raw
-      .trim()
-      .split("\n")
-      .filter(Boolean)
-      .filter((f) => !f.includes("node_modules") && !f.includes(".repoctx"))
-      .filter((f) => f !== `./${relPath}` && f !== relPath)
-      .slice(0, 5);
-  } catch {
-    return [];
-  }
+/** Extracted entries win; manual entries only add names the parser didn't find */
+function mergeExports(extracted: ExportEntry[], manual: ExportEntry[]): ExportEntry[] {
+  const names = new Set(extracted.map((e) => e.name));
+  return [...extracted, ...manual.filter((e) => !names.has(e.name))];
 }
 
 export async function saveManual({
@@ -48,29 +40,47 @@ export async function saveManual({
   delta?: string;
   meta?: boolean;
 }) {
-  const rel = meta
-    ? filePath.replaceAll("\\", "/")
-    : path.relative(process.cwd(), path.resolve(filePath)).replaceAll("\\", "/");
+  const rel = meta ? filePath.replaceAll("\\", "/") : toRepoPath(filePath);
+  const config = await loadConfig();
+  if (!meta && isExcluded(config, rel)) {
+    throw new Error(`${rel} is excluded by the repoctx config ("exclude"); remove the matching glob to save it`);
+  }
+
+  const hash = meta ? "meta" : await fileHash(fromRepoPath(rel));
 
-  const hash = meta ? "meta" : await fileHash(path.resolve(filePath));
-  const publicSurfaceHash = symbols.length > 0 ? computePublicSurfaceHash(symbols) : undefined;
+  // Parse the real export surface when we can; manual --symbols/exports are merged on top
+  const extracted = meta ? null : await extractExportsFromFile(fromRepoPath(rel));
+  const exportsList = mergeExports(extracted ?? [], exportsArg ?? []);
+  const allSymbols = [...new Set([...exportsList.map((e) => e.name), ...symbols])];
+  const publicSurfaceHash = extracted
+    ? computeExportSurfaceHash(extracted)
+    : allSymbols.length > 0 ? computePublicSurfaceHash(allSymbols) : undefined;
   const head = getGitHead();
-  const whereUsed = meta ? [] : findWhereUsed(rel);
 
   const entry: Parameters<typeof saveFileCache>[1] = {
     path: rel,
     hash,
-    summary: whereUsed.length > 0
-      ? `${summary}\nUsed in: ${whereUsed.join(", ")}`
-      : summary,
-    symbols,
-    keywords,
+    summary,
+    symbols: allSymbols,
+    keywords: [...new Set([...keywords, ...(meta ? [] : defaultKeywords(config, rel))].map(normalizeKeyword))],
     updatedAt: new Date().toISOString(),
   };
 
   if (publicSurfaceHash) entry.publicSurfaceHash = publicSurfaceHash;
-  if (exportsArg && exportsArg.length > 0) entry.exports = exportsArg;
+  if (exportsList.length > 0) entry.exports = exportsList;
+  if (extracted) {
+    // Kept apart so stale checks compare only what the parser can see again
+    const found = new Set(extracted.map((e) => e.name));
+    const manual = allSymbols.filter((name) => !found.has(name));
+    if (manual.length > 0) entry.manualExports = manual;
+  }
   if (dependencies && dependencies.length > 0) entry.dependencies = dependencies;
+  if (extracted) {
+    // Only this file's own imports: importers need the whole repo's import graph,
+    // which `scan` builds once and records on the cards
+    const imports = await createModuleResolver().importsOf(rel);
+    if (imports.length > 0) entry.imports = imports;
+  }
   if (footguns) entry.footguns = footguns;
   if (delta) entry.delta = delta;
   if (head) entry.repoHeadAtSave = head;
@@ -1,4 +1,6 @@
-import { saveSymbolCard, type SymbolCard, type SymbolRelation } from "./cache.js";
+import { saveSymbolCard, toRepoPath, type SymbolCard, type SymbolRelation } from "./cache.js";
+import { normalizeKeyword } from "./query.js";
+import { loadConfig, isExcluded, defaultKeywords } from "./config.js";
 
 export async function saveSymbol({
   symbol,
@@ -17,17 +19,24 @@ export async function saveSymbol({
   related?: SymbolRelation[];
   keywords?: string[];
 }) {
+  const rel = toRepoPath(file);
+  const config = await loadConfig();
+  if (isExcluded(config, rel)) {
+    throw new Error(`${rel} is excluded by the repoctx config ("exclude"); remove the matching glob to save symbols in it`);
+  }
+  keywords = [...(keywords ?? []), ...defaultKeywords(config, rel)];
+
   const card: SymbolCard = {
     symbol,
     kind,
-    file,
+    file: rel,
     purpose,
     updatedAt: new Date().toISOString(),
   };
 
   if (signature) card.signature = signature;
   if (related && related.length > 0) card.related = related;
-  if (keywords && keywords.length > 0) card.keywords = keywords;
+  if (keywords && keywords.length > 0) card.keywords = [...new Set(keywords.map(normalizeKeyword))];
 
   await saveSymbolCard(card);
   return symbol;
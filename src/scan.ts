@@ -0,0 +1,257 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import ts from "typescript";
+import {
+  loadIndex,
+  loadFileCache,
+  saveFileCache,
+  loadSymbolCard,
+  saveSymbolCard,
+  fileHash,
+  fromRepoPath,
+  getGitHead,
+  computeExportSurfaceHash,
+  withStoreLock,
+  type RepoctxFileCache,
+  type SymbolCard,
+  type ExportEntry,
+} from "./cache.js";
+import { normalizeKeyword } from "./query.js";
+import { adapterFor, canExtractExports, extractExports, type LanguageAdapter } from "./languages.js";
+import { listSourceFiles, buildModuleGraph, type ModuleGraph } from "./imports.js";
+import { globToRegExp, loadConfig, defaultKeywords, type RepoctxConfig } from "./config.js";
+
+// ── Bootstrap scan ────────────────────────────────────────────────────────────
+// Drafts cards from what the code already says: exports, the file's leading
+// comment, its imports and its directory. Drafts carry `source: "scan"`; a
+// later `save` replaces the whole card, and a scan never touches a card
+// someone saved by hand.
+
+export type ScanCounts = { created: string[]; updated: string[]; unchanged: number; kept: number };
+
+export type ScanReport = {
+  dryRun: boolean;
+  files: number; // matched source files
+  modules: ScanCounts;
+  symbols: ScanCounts; // kept: a hand-written card, or a draft from another file, already has the name
+};
+
+/** Directory names that say nothing about what a module is about */
+const GENERIC_DIRS = new Set(["src", "lib", "app", "apps", "packages", "source", "internal", "pkg", "."]);
+
+function emptyCounts(): ScanCounts {
+  return { created: [], updated: [], unchanged: 0, kept: 0 };
+}
+
+const FILE_TAG = /@(?:file|fileoverview|module)\b[ \t]*/;
+
+/** Comment text without the comment syntax, up to the first JSDoc tag, first paragraph only */
+function commentText(raw: string): string {
+  const body = raw.startsWith("/*")
+    ? raw.replace(/^\/\*\*?/, "").replace(/\*\/$/, "").split("\n").map((l) => l.replace(/^\s*\* ?/, ""))
+    : raw.split("\n").map((l) => l.replace(/^\s*\/\/\/? ?/, ""));
+  const paragraph: string[] = [];
+  for (const l of body.map((x) => x.trim())) {
+    if (l.startsWith("@")) break;
+    if (!l) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    paragraph.push(l);
+  }
+  return paragraph.join(" ");
+}
+
+/**
+ * The file's own doc comment: one at the top that's tagged @file/@fileoverview/@module,
+ * or separated from the first statement by a blank line (otherwise it documents that statement).
+ */
+function leadingFileComment(sf: ts.SourceFile): string | null {
+  const text = sf.getFullText();
+  const first = sf.statements[0];
+  for (const range of ts.getLeadingCommentRanges(text, 0) ?? []) {
+    const raw = text.slice(range.pos, range.end);
+    if (/^\/\/\s*(eslint|@ts-|prettier|#region)|^\/\*\s*(eslint|global|istanbul)/.test(raw)) continue;
+    if (FILE_TAG.test(raw)) return commentText(raw.replace(FILE_TAG, "")) || null;
+    const gap = text.slice(range.end, first ? first.getStart(sf) : text.length);
+    if (!first || /\n\s*\n/.test(gap)) return commentText(raw) || null;
+  }
+  return null;
+}
+
+/**
+ * The config's keywords.byPath for this file, plus its directory segments
+ * (minus generic ones) and file name — limited to keywords.vocabulary when
+ * the config has one.
+ */
+function pathKeywords(config: RepoctxConfig, rel: string): string[] {
+  const dirs = path.posix.dirname(rel).split("/").filter((d) => !GENERIC_DIRS.has(d) && !d.startsWith("."));
+  const stem = path.posix.basename(rel).replace(/\.[^.]+$/, "").replace(/\.(test|spec)$/, "");
+  let derived = (stem === "index" ? dirs : [...dirs, stem]).map(normalizeKeyword).filter(Boolean);
+  const vocabulary = config.keywords?.vocabulary;
+  if (vocabulary) {
+    const allowed = new Set(vocabulary.map(normalizeKeyword));
+    derived = derived.filter((k) => allowed.has(k));
+  }
+  return [...new Set([...defaultKeywords(config, rel), ...derived])];
+}
+
+function isExported(node: ts.Node): boolean {
+  return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+/** `name(a: A, b?: B): R`, from the declaration as written */
+function functionSignature(sf: ts.SourceFile, name: string, fn: ts.SignatureDeclarationBase): string {
+  const isAsync = ts.canHaveModifiers(fn) && !!ts.getModifiers(fn)?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword);
+  const typeParams = fn.typeParameters?.length ? `<${fn.typeParameters.map((t) => t.getText(sf)).join(", ")}>` : "";
+  const params = fn.parameters.map((p) => p.getText(sf).replace(/\s+/g, " ")).join(", ");
+  const ret = fn.type ? `: ${fn.type.getText(sf).replace(/\s+/g, " ")}` : "";
+  return `${isAsync ? "async " : ""}${name}${typeParams}(${params})${ret}`;
+}
+
+/** JSDoc summary of a node, skipping tag-only comments */
+function jsDocText(sf: ts.SourceFile, node: ts.Node): string {
+  const docs = (node as { jsDoc?: ts.JSDoc[] }).jsDoc ?? [];
+  const last = docs[docs.length - 1];
+  return last ? commentText(sf.getFullText().slice(last.pos, last.end)) : "";
+}
+
+type DraftSymbol = Pick<SymbolCard, "symbol" | "signature" | "purpose">;
+
+/** Exported functions (declarations and `const f = () => …`) that have a JSDoc summary */
+function documentedFunctions(sf: ts.SourceFile): DraftSymbol[] {
+  const found: DraftSymbol[] = [];
+  for (const stmt of sf.statements) {
+    if (!isExported(stmt)) continue;
+    if (ts.isFunctionDeclaration(stmt) && stmt.name) {
+      const purpose = jsDocText(sf, stmt);
+      if (purpose) found.push({ symbol: stmt.name.text, purpose, signature: functionSignature(sf, stmt.name.text, stmt) });
+    } else if (ts.isVariableStatement(stmt)) {
+      for (const d of stmt.declarationList.declarations) {
+        const init = d.initializer;
+        if (!ts.isIdentifier(d.name) || !init || !(ts.isArrowFunction(init) || ts.isFunctionExpression(init))) continue;
+        // JSDoc sits on the statement for `export const`, on the declaration for `export const a = …, b = …`
+        const purpose = jsDocText(sf, d) || (stmt.declarationList.declarations.length === 1 ? jsDocText(sf, stmt) : "");
+        if (purpose) found.push({ symbol: d.name.text, purpose, signature: functionSignature(sf, d.name.text, init) });
+      }
+    }
+  }
+  return found;
+}
+
+async function draftModule(
+  rel: string,
+  source: string,
+  adapter: LanguageAdapter,
+  sf: ts.SourceFile | null,
+  keywords: string[],
+  updatedAt: string,
+  graph: ModuleGraph
+): Promise<RepoctxFileCache> {
+  let exports: ExportEntry[];
+  try {
+    exports = extractExports(source, rel);
+  } catch {
+    exports = [];
+  }
+  const names = exports.map((e) => e.name);
+  const card: RepoctxFileCache = {
+    path: rel,
+    hash: await fileHash(fromRepoPath(rel)),
+    summary: (sf && leadingFileComment(sf)) ?? (names.length > 0 ? `Exports ${names.join(", ")}.` : "No exports."),
+    symbols: names,
+    keywords,
+    source: "scan",
+    updatedAt,
+  };
+  if (exports.length > 0) {
+    card.exports = exports;
+    card.publicSurfaceHash = computeExportSurfaceHash(exports);
+  }
+  const deps = adapter.packageImports(source, rel);
+  if (deps.length > 0) card.dependencies = deps;
+  const imports = graph.imports.get(rel) ?? [];
+  const importers = graph.importers.get(rel) ?? [];
+  if (imports.length > 0) card.imports = imports;
+  if (importers.length > 0) card.importers = importers;
+  return card;
+}
+
+/** Everything but the timestamp, to tell whether a re-scan changed a draft */
+function sameDraft<T extends { updatedAt: string }>(a: T, b: T): boolean {
+  const strip = ({ updatedAt: _u, repoHeadAtSave: _h, ...rest }: T & { repoHeadAtSave?: string | undefined }) => rest;
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+}
+
+/** A glob, or a plain directory path (`src/billing`) meaning everything under it */
+function matchesGlob(glob: string, file: string): boolean {
+  const dir = glob.replace(/^\.\//, "").replace(/\/+$/, "");
+  if (!/[*?]/.test(glob) && (file === dir || file.startsWith(dir + "/"))) return true;
+  return globToRegExp(glob).test(file);
+}
+
+/**
+ * Draft module and symbol cards for source files matching `glob` (all source
+ * files by default). Existing drafts are refreshed; hand-written cards are kept.
+ */
+export async function scanRepo({ glob, dryRun = false }: { glob?: string; dryRun?: boolean } = {}): Promise<ScanReport> {
+  const files = (await listSourceFiles()).filter((f) => canExtractExports(f) && (!glob || matchesGlob(glob, f))).sort();
+  const report: ScanReport = { dryRun, files: files.length, modules: emptyCounts(), symbols: emptyCounts() };
+  if (files.length === 0) return report;
+
+  const config = await loadConfig();
+  const graph = await buildModuleGraph();
+  const head = getGitHead();
+
+  return withStoreLock(async () => {
+    const idx = await loadIndex();
+    for (const rel of files) {
+      let source: string;
+      try {
+        source = await fs.readFile(fromRepoPath(rel), "utf8");
+      } catch {
+        continue; // deleted since listing
+      }
+      const adapter = adapterFor(rel)!;
+      // File comments and JSDoc'd functions are read from the TS AST; other languages get exports-only drafts
+      const sf = adapter.name === "typescript" ? ts.createSourceFile(rel, source, ts.ScriptTarget.Latest, true) : null;
+      const keywords = pathKeywords(config, rel);
+      const updatedAt = new Date().toISOString();
+
+      const existing = idx.files[rel] ? await loadFileCache(rel, idx) : null;
+      const card = await draftModule(rel, source, adapter, sf, keywords, updatedAt, graph);
+      if (head) card.repoHeadAtSave = head;
+      if (existing && existing.source !== "scan") {
+        report.modules.kept++;
+      } else if (existing && sameDraft(existing, card)) {
+        report.modules.unchanged++;
+      } else {
+        (existing ? report.modules.updated : report.modules.created).push(rel);
+        if (!dryRun) await saveFileCache(rel, card, { history: false });
+      }
+
+      for (const draft of sf ? documentedFunctions(sf) : []) {
+        const current = await loadSymbolCard(draft.symbol);
+        if (current && (current.source !== "scan" || current.file !== rel)) {
+          report.symbols.kept++;
+          continue;
+        }
+        const symbolCard: SymbolCard = {
+          ...draft,
+          kind: "function",
+          file: rel,
+          ...(keywords.length > 0 && { keywords }),
+          source: "scan",
+          updatedAt,
+        };
+        if (current && sameDraft(current, symbolCard)) {
+          report.symbols.unchanged++;
+          continue;
+        }
+        (current ? report.symbols.updated : report.symbols.created).push(draft.symbol);
+        if (!dryRun) await saveSymbolCard(symbolCard, { history: false });
+      }
+    }
+    return report;
+  });
+}
@@ -0,0 +1,124 @@
+import {
+  loadIndex,
+  loadFileCache,
+  loadFileCaches,
+  loadAllSymbols,
+  loadSymbolCard,
+  loadSearchIndex,
+  saveSearchIndex,
+  addSearchDoc,
+  tokenize,
+  moduleDocId,
+  symbolDocId,
+  moduleSearchFields,
+  symbolSearchFields,
+  withStoreLock,
+  type SearchIndex,
+} from "./cache.js";
+
+export type SearchHit = {
+  type: "module" | "symbol";
+  name: string;   // path for modules, symbol name for symbols
+  score: number;
+  snippet: string;
+};
+
+// BM25 parameters (the usual defaults)
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_CHARS = 140;
+
+/** Build the search index from scratch out of every module and symbol card */
+export async function rebuildSearchIndex(): Promise<SearchIndex> {
+  return withStoreLock(async () => {
+    const search: SearchIndex = { version: 1, docs: {}, postings: {} };
+
+    for (const card of await loadFileCaches()) {
+      addSearchDoc(search, moduleDocId(card.path), moduleSearchFields(card));
+    }
+    for (const card of await loadAllSymbols()) {
+      addSearchDoc(search, symbolDocId(card.symbol), symbolSearchFields(card));
+    }
+
+    await saveSearchIndex(search);
+    return search;
+  });
+}
+
+function bm25(idx: SearchIndex, terms: string[]): Map<string, number> {
+  const docIds = Object.keys(idx.docs);
+  const n = docIds.length;
+  const avgdl = n > 0 ? docIds.reduce((sum, d) => sum + idx.docs[d]!, 0) / n : 0;
+  const scores = new Map<string, number>();
+
+  for (const term of new Set(terms)) {
+    const post = idx.postings[term];
+    if (!post) continue;
+    const df = Object.keys(post).length;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    for (const [docId, tf] of Object.entries(post)) {
+      const dl = idx.docs[docId] ?? avgdl;
+      const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * dl / (avgdl || 1)));
+      scores.set(docId, (scores.get(docId) ?? 0) + idf * norm);
+    }
+  }
+  return scores;
+}
+
+/** The field with the most query-term hits, cut to a window around the first hit */
+function makeSnippet(fields: string[], terms: string[]): string {
+  let best = fields[0] ?? "";
+  let bestHits = -1;
+  for (const f of fields) {
+    if (!f) continue;
+    const fieldTerms = new Set(tokenize(f));
+    const hits = terms.filter((t) => fieldTerms.has(t)).length;
+    if (hits > bestHits) {
+      best = f;
+      bestHits = hits;
+    }
+  }
+
+  const text = best.replace(/\s+/g, " ").trim();
+  if (text.length <= SNIPPET_CHARS) return text;
+
+  const lower = text.toLowerCase();
+  const first = Math.min(
+    ...terms.map((t) => lower.indexOf(t)).filter((i) => i >= 0),
+    text.length
+  );
+  const start = first === text.length ? 0 : Math.max(0, first - SNIPPET_CHARS / 3);
+  const end = Math.min(text.length, start + SNIPPET_CHARS);
+  return (start > 0 ? "…" : "") + text.slice(start, end).trim() + (end < text.length ? "…" : "");
+}
+
+export async function searchContext(
+  query: string,
+  { limit = 10 }: { limit?: number } = {}
+): Promise<SearchHit[]> {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const idx = (await loadSearchIndex()) ?? (await rebuildSearchIndex());
+  const ranked = [...bm25(idx, terms)].sort((a, b) => b[1] - a[1]).slice(0, limit);
+
+  const index = await loadIndex();
+  const hits: SearchHit[] = [];
+  for (const [docId, score] of ranked) {
+    const rounded = Math.round(score * 100) / 100;
+    if (docId.startsWith("module:")) {
+      const rel = docId.slice("module:".length);
+      const card = await loadFileCache(rel, index);
+      if (!card) continue;
+      const snippet = makeSnippet([card.summary, card.footguns ?? "", card.delta ?? "", card.symbols.join(", ")], terms);
+      hits.push({ type: "module", name: rel, score: rounded, snippet });
+    } else {
+      const name = docId.slice("symbol:".length);
+      const card = await loadSymbolCard(name);
+      if (!card) continue;
+      const snippet = makeSnippet([card.purpose, card.signature ?? "", card.symbol], terms);
+      hits.push({ type: "symbol", name, score: rounded, snippet });
+    }
+  }
+  return hits;
+}
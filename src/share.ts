@@ -0,0 +1,159 @@
+import fs from "node:fs/promises";
+import {
+  STORE_VERSION,
+  loadFileCaches,
+  loadIndex,
+  loadFileCache,
+  saveFileCache,
+  loadAllSymbols,
+  loadSymbolCard,
+  saveSymbolCard,
+  normalizeRepoPath,
+  withStoreLock,
+  type RepoctxFileCache,
+  type SymbolCard,
+} from "./cache.js";
+
+// ── Bundles ───────────────────────────────────────────────────────────────────
+// A bundle is every card of a store in one JSON file, for sharing context
+// without committing .repoctx/. Importing merges card by card; the derived
+// indexes (keywords, search) are updated by the regular save path.
+
+export type Bundle = {
+  kind: "repoctx-bundle";
+  version: 1;           // bundle format
+  storeVersion: number; // format of the store it was exported from
+  exportedAt: string;
+  modules: RepoctxFileCache[];
+  symbols: SymbolCard[];
+};
+
+export const IMPORT_STRATEGIES = ["newest", "ours", "theirs", "interactive-report"] as const;
+export type ImportStrategy = (typeof IMPORT_STRATEGIES)[number];
+
+export type CardVersion = { updatedAt: string; summary: string }; // summary: module summary or symbol purpose
+
+export type ImportConflict = {
+  kind: "module" | "symbol";
+  name: string;
+  ours: CardVersion;
+  theirs: CardVersion;
+  resolved?: "ours" | "theirs" | undefined; // unset with interactive-report
+};
+
+export type ImportReport = {
+  strategy: ImportStrategy;
+  dryRun: boolean;
+  added: string[];             // not in this store
+  unchanged: number;           // identical on both sides
+  conflicts: ImportConflict[]; // both sides have the card and they differ
+};
+
+export async function exportBundle(): Promise<Bundle> {
+  return {
+    kind: "repoctx-bundle",
+    version: 1,
+    storeVersion: STORE_VERSION,
+    exportedAt: new Date().toISOString(),
+    modules: await loadFileCaches(),
+    symbols: await loadAllSymbols(),
+  };
+}
+
+export async function readBundle(file: string): Promise<Bundle> {
+  let bundle: Bundle;
+  try {
+    bundle = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (e) {
+    throw new Error(`Can't read bundle ${file}: ${(e as Error).message}`);
+  }
+  if (bundle?.kind !== "repoctx-bundle" || !Array.isArray(bundle.modules) || !Array.isArray(bundle.symbols)) {
+    throw new Error(`${file} is not a repoctx bundle`);
+  }
+  if (bundle.storeVersion > STORE_VERSION) {
+    throw new Error(`${file} was exported by a newer repoctx (format ${bundle.storeVersion}, this one reads ${STORE_VERSION}). Upgrade repoctx.`);
+  }
+  return bundle;
+}
+
+/** JSON with sorted keys, so two machines' copies of the same card compare equal */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v
+  );
+}
+
+function resolve(strategy: ImportStrategy, ours: CardVersion, theirs: CardVersion): "ours" | "theirs" | undefined {
+  switch (strategy) {
+    case "ours":
+      return "ours";
+    case "theirs":
+      return "theirs";
+    case "newest":
+      return theirs.updatedAt > ours.updatedAt ? "theirs" : "ours";
+    case "interactive-report":
+      return undefined;
+  }
+}
+
+/**
+ * Merge a bundle into this store. Cards only in the bundle are added; cards on
+ * both sides that differ are resolved by `strategy` — or, with
+ * interactive-report, left alone and listed for a person to decide.
+ */
+export async function importBundle(
+  bundle: Bundle,
+  { strategy = "newest", dryRun = false }: { strategy?: ImportStrategy; dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  return withStoreLock(async () => {
+    const report: ImportReport = { strategy, dryRun, added: [], unchanged: 0, conflicts: [] };
+    const idx = await loadIndex();
+
+    for (const theirs of bundle.modules) {
+      const ours = idx.files[theirs.path] ? await loadFileCache(theirs.path, idx) : null;
+      let take = !ours;
+      if (!ours) {
+        report.added.push(theirs.path);
+      } else if (canonical(ours) === canonical(theirs)) {
+        report.unchanged++;
+      } else {
+        const conflict: ImportConflict = {
+          kind: "module",
+          name: theirs.path,
+          ours: { updatedAt: ours.updatedAt, summary: ours.summary },
+          theirs: { updatedAt: theirs.updatedAt, summary: theirs.summary },
+        };
+        conflict.resolved = resolve(strategy, conflict.ours, conflict.theirs);
+        report.conflicts.push(conflict);
+        take = conflict.resolved === "theirs";
+      }
+      if (take && !dryRun) await saveFileCache(theirs.path, theirs);
+    }
+
+    for (const card of bundle.symbols) {
+      const theirs = { ...card, file: normalizeRepoPath(card.file) };
+      const ours = await loadSymbolCard(theirs.symbol);
+      let take = !ours;
+      if (!ours) {
+        report.added.push(`symbol:${theirs.symbol}`);
+      } else if (canonical(ours) === canonical(theirs)) {
+        report.unchanged++;
+      } else {
+        const conflict: ImportConflict = {
+          kind: "symbol",
+          name: theirs.symbol,
+          ours: { updatedAt: ours.updatedAt, summary: ours.purpose },
+          theirs: { updatedAt: theirs.updatedAt, summary: theirs.purpose },
+        };
+        conflict.resolved = resolve(strategy, conflict.ours, conflict.theirs);
+        report.conflicts.push(conflict);
+        take = conflict.resolved === "theirs";
+      }
+      if (take && !dryRun) await saveSymbolCard(theirs);
+    }
+
+    return report;
+  });
+}
@@ -0,0 +1,134 @@
+import { canExtractExports, declarationRanges, type DeclarationRange } from "./languages.js";
+import type { ExportEntry } from "./cache.js";
+
+// ── Hunks ─────────────────────────────────────────────────────────────────────
+
+export type Hunk = {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  header: string;  // the function context git prints after the second @@
+  lines: string[]; // +/- lines only
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+/** Hunks of a single-file `git diff` (best with -U0, so every line is a change) */
+export function parseHunks(diffText: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  for (const line of diffText.split("\n")) {
+    const m = HUNK_HEADER.exec(line);
+    if (m) {
+      current = {
+        oldStart: Number(m[1]),
+        oldCount: m[2] === undefined ? 1 : Number(m[2]),
+        newStart: Number(m[3]),
+        newCount: m[4] === undefined ? 1 : Number(m[4]),
+        header: m[5]?.trim() ?? "",
+        lines: [],
+      };
+      hunks.push(current);
+    } else if (current && (line.startsWith("+") || line.startsWith("-"))) {
+      current.lines.push(line);
+    }
+  }
+  return hunks;
+}
+
+/** A whole new file as one all-added hunk */
+export function additionHunk(lines: string[]): Hunk {
+  return { oldStart: 0, oldCount: 0, newStart: 1, newCount: lines.length, header: "", lines: lines.map((l) => "+" + l) };
+}
+
+export function hunkHeaderLine(h: Hunk): string {
+  return `@@ -${h.oldStart},${h.oldCount} +${h.newStart},${h.newCount} @@${h.header ? ` ${h.header}` : ""}`;
+}
+
+// ── Grouping ──────────────────────────────────────────────────────────────────
+
+export type DeclarationChange = {
+  name: string;                     // declaration, `Class.member`, "(top level)", or "@@ <hunk context>" / "lines a–b"
+  kind: ExportEntry["kind"] | "hunk";
+  change: "added" | "removed" | "modified";
+  additions: number;
+  deletions: number;
+};
+
+const TOP_LEVEL = "(top level)";
+
+/** Innermost declaration spanning `line` */
+function enclosing(decls: DeclarationRange[], line: number): DeclarationRange | undefined {
+  let best: DeclarationRange | undefined;
+  for (const d of decls) {
+    if (line < d.startLine || line > d.endLine) continue;
+    if (!best || d.endLine - d.startLine < best.endLine - best.startLine) best = d;
+  }
+  return best;
+}
+
+/**
+ * Attribute every changed line to the declaration around it: removed lines in
+ * the old revision, added lines in the new one. A name only in the new
+ * revision was added, one only in the old revision was removed.
+ */
+export function groupByDeclaration(
+  hunks: Hunk[],
+  oldSource: string | null,
+  newSource: string | null,
+  fileName: string
+): DeclarationChange[] {
+  const oldDecls = oldSource === null ? [] : declarationRanges(oldSource, fileName);
+  const newDecls = newSource === null ? [] : declarationRanges(newSource, fileName);
+  const oldNames = new Set(oldDecls.map((d) => d.name));
+  const newNames = new Set(newDecls.map((d) => d.name));
+  const changes = new Map<string, DeclarationChange>();
+
+  const bump = (decl: DeclarationRange | undefined, side: "additions" | "deletions") => {
+    const name = decl?.name ?? TOP_LEVEL;
+    let c = changes.get(name);
+    if (!c) {
+      const change = !decl ? "modified" : !oldNames.has(name) ? "added" : !newNames.has(name) ? "removed" : "modified";
+      c = { name, kind: decl?.kind ?? "other", change, additions: 0, deletions: 0 };
+      changes.set(name, c);
+    }
+    c[side]++;
+  };
+
+  for (const h of hunks) {
+    let oldLine = h.oldStart;
+    let newLine = h.newStart;
+    for (const l of h.lines) {
+      if (l.startsWith("-")) bump(enclosing(oldDecls, oldLine++), "deletions");
+      else bump(enclosing(newDecls, newLine++), "additions");
+    }
+  }
+  return [...changes.values()];
+}
+
+/** For files we can't parse: one entry per hunk context git reported (or line range) */
+export function groupByHunk(hunks: Hunk[]): DeclarationChange[] {
+  const changes = new Map<string, DeclarationChange>();
+  for (const h of hunks) {
+    const end = h.newStart + Math.max(h.newCount, 1) - 1;
+    const name = h.header ? `@@ ${h.header}` : end > h.newStart ? `lines ${h.newStart}–${end}` : `line ${h.newStart}`;
+    const c = changes.get(name)
+      ?? { name, kind: "hunk" as const, change: h.oldCount === 0 ? "added" as const : h.newCount === 0 ? "removed" as const : "modified" as const, additions: 0, deletions: 0 };
+    for (const l of h.lines) {
+      if (l.startsWith("-")) c.deletions++;
+      else c.additions++;
+    }
+    changes.set(name, c);
+  }
+  return [...changes.values()];
+}
+
+export function summarizeChanges(
+  file: string,
+  hunks: Hunk[],
+  oldSource: string | null,
+  newSource: string | null
+): DeclarationChange[] {
+  return canExtractExports(file) ? groupByDeclaration(hunks, oldSource, newSource, file) : groupByHunk(hunks);
+}
@@ -0,0 +1,28 @@
+// ── --verbose timings ─────────────────────────────────────────────────────────
+
+export type Timings = {
+  /** Close the current phase: time since the previous mark (or creation) */
+  mark(phase: string, detail?: string): void;
+  lines(): string[];
+};
+
+export function createTimings(): Timings {
+  const start = performance.now();
+  let last = start;
+  const phases: { phase: string; ms: number; detail?: string | undefined }[] = [];
+
+  return {
+    mark(phase, detail) {
+      const now = performance.now();
+      phases.push({ phase, ms: now - last, detail });
+      last = now;
+    },
+    lines() {
+      const width = Math.max(5, ...phases.map((p) => p.phase.length));
+      return [
+        ...phases.map((p) => `${p.phase.padEnd(width)}  ${p.ms.toFixed(1).padStart(8)} ms${p.detail ? `  (${p.detail})` : ""}`),
+        `${"total".padEnd(width)}  ${(last - start).toFixed(1).padStart(8)} ms`,
+      ];
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import fs from "node:fs";
+import path from "node:path";
+import { builtinModules } from "node:module";
+import ts from "typescript";
+import { repoRoot, toRepoPath, fromRepoPath, type ExportEntry } from "./cache.js";
+import { TS_EXTENSIONS, scriptKindOf, extractTsExports, tsDeclarationRanges } from "./exports.js";
+import type { LanguageAdapter, Usage } from "./languages.js";
+
+// ── TypeScript / JavaScript ───────────────────────────────────────────────────
+// Import specifiers come from ts.preProcessFile (static imports, re-exports,
+// require() and dynamic import()); resolution goes through ts.resolveModuleName
+// so tsconfig `paths`/`baseUrl` and package.json `exports` behave like tsc.
+
+function loadCompilerOptions(): ts.CompilerOptions {
+  const configPath = ts.findConfigFile(repoRoot(), ts.sys.fileExists, "tsconfig.json")
+    ?? ts.findConfigFile(repoRoot(), ts.sys.fileExists, "jsconfig.json");
+
+  let options: ts.CompilerOptions = {};
+  if (configPath) {
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    options = ts.parseJsonConfigFileContent(config ?? {}, ts.sys, path.dirname(configPath)).options;
+  }
+
+  // node10/classic resolution ignores package.json `exports`; bundler resolution is
+  // a superset for our purposes (extensionless relative imports still resolve)
+  const legacy = options.moduleResolution === undefined
+    || options.moduleResolution === ts.ModuleResolutionKind.Node10
+    || options.moduleResolution === ts.ModuleResolutionKind.Classic;
+  if (legacy) {
+    options = { ...options, moduleResolution: ts.ModuleResolutionKind.Bundler, module: ts.ModuleKind.ESNext };
+  }
+  return { ...options, allowJs: true, resolveJsonModule: true, noEmit: true };
+}
+
+const compilerOptions = new Map<string, ts.CompilerOptions>(); // per root, read once per process
+
+function optionsForRoot(): ts.CompilerOptions {
+  let options = compilerOptions.get(repoRoot());
+  if (!options) {
+    options = loadCompilerOptions();
+    compilerOptions.set(repoRoot(), options);
+  }
+  return options;
+}
+
+/**
+ * Exports with `export * from "./x"` replaced by x's own exports, followed
+ * through nested barrels. Package targets and cycles contribute nothing.
+ */
+function extractExports(source: string, fileName: string, seen = new Set<string>()): ExportEntry[] {
+  const abs = fromRepoPath(fileName);
+  seen.add(abs);
+  return extractTsExports(source, fileName, (spec) => {
+    const { resolvedModule } = ts.resolveModuleName(spec, abs, optionsForRoot(), ts.sys);
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport || seen.has(resolvedModule.resolvedFileName)) return [];
+    const target = resolvedModule.resolvedFileName;
+    let text: string;
+    try {
+      text = fs.readFileSync(target, "utf8");
+    } catch {
+      return [];
+    }
+    return extractExports(text, target, seen);
+  });
+}
+
+const NODE_BUILTINS = new Set(builtinModules);
+
+/** Package names imported by a file: `@scope/pkg/sub` → `@scope/pkg`, `lodash/fp` → `lodash`; Node builtins aren't packages */
+function packageImports(source: string): string[] {
+  const { importedFiles } = ts.preProcessFile(source, true, true);
+  const names = new Set<string>();
+  for (const { fileName: spec } of importedFiles) {
+    if (spec.startsWith(".") || spec.startsWith("/") || spec.startsWith("#")) continue;
+    if (spec.startsWith("node:") || NODE_BUILTINS.has(spec)) continue;
+    const parts = spec.split("/");
+    names.add(spec.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0]!);
+  }
+  return [...names].sort();
+}
+
+/** The name being declared here, rather than a reference to it (`{ name }` shorthand is a reference) */
+function isDeclarationName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (!parent || ts.isPropertyAccessExpression(parent) || ts.isShorthandPropertyAssignment(parent)) return false;
+  return (parent as ts.NamedDeclaration).name === node;
+}
+
+function findUsages(source: string, fileName: string, name: string): Usage[] {
+  const sf = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, scriptKindOf(fileName));
+  const lines = new Set<number>();
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node) || ts.isImportEqualsDeclaration(node)) return;
+    if (ts.isExportDeclaration(node) && node.moduleSpecifier) return;
+    if (ts.isIdentifier(node) && node.text === name && !isDeclarationName(node)) {
+      lines.add(sf.getLineAndCharacterOfPosition(node.getStart(sf)).line);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sf);
+  const text = source.split("\n");
+  return [...lines].sort((a, b) => a - b).map((l) => ({ line: l + 1, text: text[l]!.trim() }));
+}
+
+export const typescript: LanguageAdapter = {
+  name: "typescript",
+  extensions: TS_EXTENSIONS,
+  extractExports: (source, fileName) => extractExports(source, fileName),
+  declarationRanges: tsDeclarationRanges,
+  packageImports,
+  createResolver() {
+    const options = optionsForRoot();
+    const cache = ts.createModuleResolutionCache(repoRoot(), (f) => f, options);
+    return (relPath, source) => {
+      const abs = fromRepoPath(relPath);
+      const found: string[] = [];
+      for (const { fileName: spec } of ts.preProcessFile(source, true, true).importedFiles) {
+        const { resolvedModule } = ts.resolveModuleName(spec, abs, options, ts.sys, cache);
+        if (resolvedModule && !resolvedModule.isExternalLibraryImport) found.push(toRepoPath(resolvedModule.resolvedFileName));
+      }
+      return found;
+    };
+  },
+  findUsages,
+};
@@ -0,0 +1,67 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadIndex, loadFileCaches, loadSymbolCard, fromRepoPath, toRepoPath } from "./cache.js";
+import { adapterFor } from "./languages.js";
+import { buildModuleGraph, listSourceFiles } from "./imports.js";
+
+// ── Usages ────────────────────────────────────────────────────────────────────
+// Where a public symbol is used: the files that import its file (plus, for
+// directory-scoped languages like Go, the rest of its package), each searched
+// by its own language adapter.
+
+export type UsageHit = { path: string; line: number; text: string };
+
+export type UsagesResult = {
+  symbol: string;
+  file: string;      // where the symbol is declared
+  searched: number;  // files that could see it
+  usages: UsageHit[];
+};
+
+/** The declaring file: --file, else the symbol card's file, else the one module card exporting the name */
+async function declaringFile(symbol: string, file: string | undefined): Promise<string> {
+  if (file !== undefined) return toRepoPath(file);
+  const card = await loadSymbolCard(symbol);
+  if (card) return card.file;
+
+  const idx = await loadIndex();
+  const name = symbol.split(".").pop()!;
+  const owners = (await loadFileCaches(undefined, idx))
+    .filter((c) => c.hash !== "meta" && (c.exports?.some((e) => e.name === symbol || e.name === name) ?? c.symbols.includes(name)))
+    .map((c) => c.path);
+  if (owners.length === 1) return owners[0]!;
+  if (owners.length === 0) throw new Error(`No symbol card or indexed module exports "${symbol}". Pass --file <path>.`);
+  throw new Error(`"${symbol}" is exported by ${owners.join(", ")}. Pass --file <path> to pick one.`);
+}
+
+export async function findUsages(symbol: string, { file }: { file?: string } = {}): Promise<UsagesResult> {
+  const declaredIn = await declaringFile(symbol, file);
+  const adapter = adapterFor(declaredIn);
+  if (!adapter) throw new Error(`No language adapter for ${declaredIn}; usages can be found in TS/JS, Python and Go files`);
+
+  const graph = await buildModuleGraph();
+  const candidates = new Set(graph.importers.get(declaredIn) ?? []);
+  if (adapter.directoryScoped) {
+    const dir = path.posix.dirname(declaredIn);
+    for (const f of await listSourceFiles()) {
+      if (path.posix.dirname(f) === dir && adapterFor(f) === adapter) candidates.add(f);
+    }
+  }
+  candidates.delete(declaredIn);
+
+  // `Ledger.post` is referenced as `post` (on some Ledger value)
+  const name = symbol.split(".").pop()!;
+  const usages: UsageHit[] = [];
+  for (const rel of [...candidates].sort()) {
+    const fileAdapter = adapterFor(rel);
+    if (!fileAdapter) continue;
+    let source: string;
+    try {
+      source = await fs.readFile(fromRepoPath(rel), "utf8");
+    } catch {
+      continue; // deleted since the graph was built
+    }
+    for (const u of fileAdapter.findUsages(source, rel, name)) usages.push({ path: rel, ...u });
+  }
+  return { symbol, file: declaredIn, searched: candidates.size, usages };
+}
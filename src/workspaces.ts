@@ -0,0 +1,136 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { repoRoot } from "./cache.js";
+
+// ── Workspaces ────────────────────────────────────────────────────────────────
+// npm/yarn `workspaces` in the root package.json, or pnpm-workspace.yaml. A
+// workspace may keep its own .repoctx/; root queries merge those in.
+
+export type Workspace = {
+  name: string;      // package.json name, else the directory name
+  dir: string;       // relative to the repo root
+  hasStore: boolean; // has its own .repoctx/
+};
+
+async function readJson(file: string): Promise<Record<string, unknown> | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+async function isDir(p: string): Promise<boolean> {
+  try {
+    return (await fs.stat(p)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/** The `packages:` list of a pnpm-workspace.yaml (the only key we need, so no YAML parser) */
+function pnpmPatterns(yaml: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of yaml.split("\n")) {
+    if (/^\S/.test(line)) inPackages = /^packages\s*:/.test(line);
+    const m = inPackages ? /^\s+-\s*["']?([^"'#]+?)["']?\s*(#.*)?$/.exec(line) : null;
+    if (m?.[1]) patterns.push(m[1]);
+  }
+  return patterns;
+}
+
+async function workspacePatterns(root: string): Promise<string[]> {
+  const pkg = await readJson(path.join(root, "package.json"));
+  const ws = pkg?.["workspaces"];
+  if (Array.isArray(ws)) return ws.filter((p): p is string => typeof p === "string");
+  if (ws && typeof ws === "object" && Array.isArray((ws as { packages?: unknown }).packages)) {
+    return (ws as { packages: unknown[] }).packages.filter((p): p is string => typeof p === "string");
+  }
+  try {
+    return pnpmPatterns(await fs.readFile(path.join(root, "pnpm-workspace.yaml"), "utf8"));
+  } catch {
+    return [];
+  }
+}
+
+/** Directories matching a workspace glob: literal segments, `*` and `**` */
+async function expandPattern(root: string, pattern: string): Promise<string[]> {
+  const segments = pattern.replace(/^\.\//, "").replace(/\/+$/, "").split("/").filter(Boolean);
+  let dirs = [""];
+  for (const seg of segments) {
+    const next: string[] = [];
+    for (const dir of dirs) {
+      if (seg === "**") {
+        next.push(dir, ...(await subdirs(root, dir, true)));
+      } else if (seg.includes("*")) {
+        const re = new RegExp("^" + seg.split("*").map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[^/]*") + "$");
+        next.push(...(await subdirs(root, dir, false)).filter((d) => re.test(path.posix.basename(d))));
+      } else if (await isDir(path.join(root, dir, seg))) {
+        next.push(path.posix.join(dir, seg));
+      }
+    }
+    dirs = next;
+  }
+  return dirs.filter(Boolean);
+}
+
+async function subdirs(root: string, dir: string, recursive: boolean): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(root, dir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const out: string[] = [];
+  for (const e of entries) {
+    if (!e.isDirectory() || e.name === "node_modules" || e.name.startsWith(".")) continue;
+    const rel = path.posix.join(dir, e.name);
+    out.push(rel);
+    if (recursive) out.push(...(await subdirs(root, rel, true)));
+  }
+  return out;
+}
+
+/** Workspaces declared at the repo root, sorted by directory; empty outside a monorepo */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const root = repoRoot();
+  const patterns = await workspacePatterns(root);
+  const excluded = new Set<string>();
+  const dirs = new Set<string>();
+  for (const p of patterns) {
+    const target = p.startsWith("!") ? excluded : dirs;
+    for (const d of await expandPattern(root, p.replace(/^!/, ""))) target.add(d);
+  }
+
+  const workspaces: Workspace[] = [];
+  for (const dir of [...dirs].filter((d) => !excluded.has(d)).sort()) {
+    const pkg = await readJson(path.join(root, dir, "package.json"));
+    if (!pkg) continue;
+    const name = typeof pkg["name"] === "string" ? pkg["name"] : path.posix.basename(dir);
+    workspaces.push({ name, dir, hasStore: await isDir(path.join(root, dir, ".repoctx")) });
+  }
+  return workspaces;
+}
+
+/** Match by package name, unscoped name (`api` for `@acme/api`) or directory */
+export async function findWorkspace(name: string): Promise<Workspace> {
+  const workspaces = await listWorkspaces();
+  const wanted = name.replace(/\/+$/, "");
+  const ws = workspaces.find((w) => w.name === wanted)
+    ?? workspaces.find((w) => w.name.replace(/^@[^/]+\//, "") === wanted)
+    ?? workspaces.find((w) => w.dir === wanted || path.posix.basename(w.dir) === wanted);
+  if (!ws) {
+    throw new Error(
+      workspaces.length === 0
+        ? `No workspaces declared in ${repoRoot()} (package.json "workspaces" or pnpm-workspace.yaml)`
+        : `Unknown workspace "${name}". Known: ${workspaces.map((w) => w.name).join(", ")}`
+    );
+  }
+  return ws;
+}
+
+/** Absolute directory of a workspace */
+export function workspaceRoot(ws: Workspace): string {
+  return path.join(repoRoot(), ws.dir);
+}
@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import { fileURLToPath } from "node:url";
+
+// Runs the built CLI (npm test builds first) against a throwaway git repo.
+
+const run = promisify(execFile);
+const CLI = fileURLToPath(new URL("../dist/index.js", import.meta.url));
+
+const env = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "test",
+  GIT_AUTHOR_EMAIL: "test@example.com",
+  GIT_COMMITTER_NAME: "test",
+  GIT_COMMITTER_EMAIL: "test@example.com",
+};
+
+async function tempRepo(t) {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "repoctx-test-"));
+  t.after(() => fs.rm(dir, { recursive: true, force: true }));
+  await run("git", ["init", "-q"], { cwd: dir, env });
+  return dir;
+}
+
+const repoctx = (cwd, ...args) => run(process.execPath, [CLI, ...args], { cwd, env });
+
+test("concurrent saves all land in index.json", async (t) => {
+  const dir = await tempRepo(t);
+  const N = 8;
+  const files = Array.from({ length: N }, (_, i) => `src/mod${i}.ts`);
+  await fs.mkdir(path.join(dir, "src"));
+  for (const [i, file] of files.entries()) {
+    await fs.writeFile(path.join(dir, file), `export const value${i} = ${i};\n`);
+  }
+
+  await Promise.all(files.map((file) => repoctx(dir, "save", file, `Module ${file}`, "--keywords", "test")));
+
+  const idx = JSON.parse(await fs.readFile(path.join(dir, ".repoctx", "index.json"), "utf8"));
+  assert.deepEqual(Object.keys(idx.files).sort(), [...files].sort());
+});
+
+test("a truncated index.json is reported, not overwritten", async (t) => {
+  const dir = await tempRepo(t);
+  await fs.writeFile(path.join(dir, "a.ts"), "export const a = 1;\n");
+  await fs.writeFile(path.join(dir, "b.ts"), "export const b = 2;\n");
+  await repoctx(dir, "save", "a.ts", "Module a", "--keywords", "test");
+
+  const indexPath = path.join(dir, ".repoctx", "index.json");
+  const full = await fs.readFile(indexPath, "utf8");
+  const truncated = full.slice(0, Math.floor(full.length / 2));
+  await fs.writeFile(indexPath, truncated);
+
+  await assert.rejects(repoctx(dir, "save", "b.ts", "Module b", "--keywords", "test"), (e) => {
+    assert.match(e.stderr, /index\.json is corrupt/);
+    assert.match(e.stderr, /Refusing to overwrite it/);
+    return true;
+  });
+  assert.equal(await fs.readFile(indexPath, "utf8"), truncated);
+});